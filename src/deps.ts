@@ -1,2 +1,2 @@
-export type { Stream, Manifest, ManifestConfigType } from 'stremio-addon-sdk';
+export type { Stream, Manifest, ManifestConfigType, ManifestCatalog, MetaPreview, MetaDetail } from 'stremio-addon-sdk';
 export * as jose from 'jose';
\ No newline at end of file
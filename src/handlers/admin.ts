@@ -0,0 +1,232 @@
+import { cacheAdmin, type PurgeTarget } from '../lib/cache_admin.ts';
+import { fingerprint } from '../lib/crypto.ts';
+
+// Admin routes are disabled unless ADMIN_TOKEN is set.
+const ADMIN_TOKEN = Deno.env.get("ADMIN_TOKEN");
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' } });
+}
+
+// Accepts "Authorization: Bearer <token>" or "X-Admin-Token: <token>". Hashes are compared,
+// so the comparison takes the same time however much of the token matches.
+async function isAuthorized(request: Request): Promise<boolean> {
+    if (!ADMIN_TOKEN) return false;
+    const header = request.headers.get('Authorization');
+    const provided = header?.startsWith('Bearer ') ? header.substring(7) : request.headers.get('X-Admin-Token');
+    if (!provided) return false;
+    return await fingerprint(provided, 64) === await fingerprint(ADMIN_TOKEN, 64);
+}
+
+function parseKeyParam(raw: string | null): Deno.KvKey | null {
+    if (!raw) return null;
+    try {
+        const key = JSON.parse(raw);
+        return Array.isArray(key) && key.every(part => typeof part === 'string' || typeof part === 'number' || typeof part === 'boolean')
+            ? key
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+function parsePurgeTarget(body: Record<string, unknown>): PurgeTarget | null {
+    if (typeof body.imdbId === 'string' && body.imdbId.trim()) return { imdbId: body.imdbId.trim() };
+    if (typeof body.prefix === 'string' && body.prefix.trim()) return { prefix: body.prefix.trim() };
+    if (body.all === true) return { all: true };
+    return null;
+}
+
+// Handles /admin/api/:action (keys, entry, purge, stats).
+export async function handleAdminApiRequest(request: Request, action: string): Promise<Response> {
+    if (!ADMIN_TOKEN) {
+        return new Response('Not Found', { status: 404 });
+    }
+    if (!await isAuthorized(request)) {
+        console.warn(`Rejected unauthorized admin request: ${request.method} ${action}`);
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const url = new URL(request.url);
+    try {
+        switch (`${request.method} ${action}`) {
+            case 'GET keys': {
+                const limit = parseInt(url.searchParams.get('limit') ?? '', 10);
+                return jsonResponse(await cacheAdmin.listEntries({
+                    imdbId: url.searchParams.get('imdb')?.trim() || undefined,
+                    prefix: url.searchParams.get('prefix')?.trim() || undefined,
+                    limit: isNaN(limit) || limit <= 0 ? undefined : limit,
+                }));
+            }
+            case 'GET entry': {
+                const key = parseKeyParam(url.searchParams.get('key'));
+                if (!key) return jsonResponse({ error: 'Expected a JSON array key, e.g. ?key=["stream_tt0111161","nosn","noep","…"]' }, 400);
+                const entry = await cacheAdmin.getEntry(key);
+                return entry ? jsonResponse(entry) : jsonResponse({ error: 'Entry not found' }, 404);
+            }
+            case 'POST purge': {
+                const body = await request.json().catch(() => null);
+                const target = body && typeof body === 'object' ? parsePurgeTarget(body) : null;
+                if (!target) return jsonResponse({ error: 'Expected {"imdbId": "..."}, {"prefix": "..."} or {"all": true}' }, 400);
+                return jsonResponse({ deleted: await cacheAdmin.purge(target) });
+            }
+            case 'GET stats':
+                return jsonResponse(await cacheAdmin.stats());
+            default:
+                return jsonResponse({ error: `Unknown admin action: ${request.method} ${action}` }, 404);
+        }
+    } catch (error) {
+        console.error(`Error in admin action ${action}:`, error);
+        return jsonResponse({ error: 'Internal server error' }, 500);
+    }
+}
+
+// Serves /admin. The page itself holds no data; it asks for the token and calls the API with it.
+export function serveAdminPage(): Response {
+    if (!ADMIN_TOKEN) {
+        return new Response('Not Found', { status: 404 });
+    }
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>FilmWhisper Cache Admin</title>
+    <style>
+        :root {
+            --vibrant-purple: #7e3bff;
+            --dark-bg: #1a052f;
+            --darker-bg: #120324;
+            --text-light: #e2d9f3;
+            --text-lighter: #f5f0ff;
+            --error-red: #ff6b6b;
+        }
+        body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            max-width: 1000px;
+            margin: 0 auto;
+            padding: 20px;
+            color: var(--text-light);
+            background-color: var(--dark-bg);
+        }
+        h1 { color: var(--text-lighter); border-bottom: 2px solid var(--vibrant-purple); padding-bottom: 10px; }
+        h2 { color: var(--text-lighter); }
+        input, button { padding: 6px 10px; border-radius: 6px; border: 1px solid var(--vibrant-purple); background: var(--darker-bg); color: var(--text-light); }
+        button { cursor: pointer; background: var(--vibrant-purple); color: var(--text-lighter); }
+        button.danger { background: var(--error-red); border-color: var(--error-red); }
+        table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+        td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid rgba(126, 59, 255, 0.3); word-break: break-all; }
+        pre { background: var(--darker-bg); padding: 10px; border-radius: 6px; overflow: auto; max-height: 400px; }
+        .row { display: flex; gap: 8px; flex-wrap: wrap; margin-bottom: 10px; }
+        #status { color: var(--error-red); }
+    </style>
+</head>
+<body>
+    <h1>Cache Admin</h1>
+    <div class="row">
+        <input type="password" id="token" placeholder="ADMIN_TOKEN" size="40">
+        <button onclick="saveToken()">Use token</button>
+        <span id="status"></span>
+    </div>
+
+    <h2>Stats</h2>
+    <button onclick="loadStats()">Refresh</button>
+    <table id="stats"></table>
+
+    <h2>Entries</h2>
+    <div class="row">
+        <input id="imdb" placeholder="IMDB id, e.g. tt0111161">
+        <input id="prefix" placeholder="Key prefix, e.g. stream_">
+        <button onclick="loadKeys()">List</button>
+    </div>
+    <table id="keys"></table>
+    <pre id="entry" hidden></pre>
+
+    <h2>Purge</h2>
+    <div class="row">
+        <button class="danger" onclick="purge({ imdbId: value('imdb') })">Purge IMDB id</button>
+        <button class="danger" onclick="purge({ prefix: value('prefix') })">Purge prefix</button>
+        <button class="danger" onclick="purge({ all: true })">Purge everything</button>
+    </div>
+
+    <script>
+        const tokenInput = document.getElementById('token');
+        tokenInput.value = sessionStorage.getItem('adminToken') || '';
+
+        function value(id) { return document.getElementById(id).value.trim(); }
+        function saveToken() { sessionStorage.setItem('adminToken', tokenInput.value); loadStats(); }
+        function cell(text) { const td = document.createElement('td'); td.textContent = text; return td; }
+        function formatAge(seconds) { return seconds === null ? 'unknown' : seconds < 120 ? seconds + 's' : Math.round(seconds / 60) + 'min'; }
+
+        async function api(path, options = {}) {
+            const response = await fetch('/admin/api/' + path, {
+                ...options,
+                headers: { 'Authorization': 'Bearer ' + tokenInput.value, 'Content-Type': 'application/json' },
+            });
+            const body = await response.json();
+            document.getElementById('status').textContent = response.ok ? '' : (body.error || response.statusText);
+            return response.ok ? body : null;
+        }
+
+        async function loadStats() {
+            const stats = await api('stats');
+            if (!stats) return;
+            const table = document.getElementById('stats');
+            table.innerHTML = '<tr><th>Prefix</th><th>Description</th><th>Entries</th><th>Approx. size</th></tr>';
+            for (const namespace of stats.namespaces) {
+                const row = document.createElement('tr');
+                row.append(cell(namespace.prefix ?? '(other)'), cell(namespace.description), cell(namespace.entries), cell((namespace.approxBytes / 1024).toFixed(1) + ' KiB'));
+                table.append(row);
+            }
+            const total = document.createElement('tr');
+            total.append(cell('Total'), cell(''), cell(stats.totalEntries), cell((stats.totalApproxBytes / 1024).toFixed(1) + ' KiB'));
+            table.append(total);
+        }
+
+        async function loadKeys() {
+            const params = new URLSearchParams();
+            if (value('imdb')) params.set('imdb', value('imdb'));
+            if (value('prefix')) params.set('prefix', value('prefix'));
+            const result = await api('keys?' + params);
+            if (!result) return;
+            const table = document.getElementById('keys');
+            table.innerHTML = '<tr><th>Key</th><th>Age</th><th>Size</th></tr>';
+            for (const entry of result.entries) {
+                const row = document.createElement('tr');
+                const keyCell = cell(JSON.stringify(entry.key));
+                keyCell.style.cursor = 'pointer';
+                keyCell.onclick = () => showEntry(entry.key);
+                row.append(keyCell, cell(formatAge(entry.ageSeconds)), cell(entry.sizeBytes + ' B'));
+                table.append(row);
+            }
+            if (result.truncated) {
+                const row = document.createElement('tr');
+                row.append(cell('… more entries; narrow the filter'));
+                table.append(row);
+            }
+        }
+
+        async function showEntry(key) {
+            const entry = await api('entry?key=' + encodeURIComponent(JSON.stringify(key)));
+            if (!entry) return;
+            const pre = document.getElementById('entry');
+            pre.textContent = 'Age: ' + formatAge(entry.ageSeconds) + '\\n' + JSON.stringify(entry.value, null, 2);
+            pre.hidden = false;
+        }
+
+        async function purge(target) {
+            if ((target.imdbId === '' || target.prefix === '') || !confirm('Purge ' + JSON.stringify(target) + '?')) return;
+            const result = await api('purge', { method: 'POST', body: JSON.stringify(target) });
+            if (result) alert('Deleted ' + result.deleted + ' entries.');
+            loadStats();
+        }
+
+        if (tokenInput.value) loadStats();
+    </script>
+</body>
+</html>
+`;
+
+    return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } });
+}
@@ -1,6 +1,9 @@
 import type { Manifest, ManifestConfigType } from '../deps.ts';
 import type { Config } from '../types.ts';
 import { encryptConfig, isKeyInitialized } from '../lib/crypto.ts';
+import { parseFacetList, VIDEO_RESOLUTION_OPTIONS, VIDEO_SOURCE_OPTIONS, LANGUAGE_OPTIONS } from '../lib/bitmagnet/facets.ts';
+import { rankingEngine, parseRankingPreset } from '../lib/ranking.ts';
+import { parseTitleMatchStrictness } from '../lib/title_match.ts';
 
 export async function handleGenerateTokenRequest(request: Request, manifest: Manifest): Promise<Response> {
     if (!isKeyInitialized()) {
@@ -17,10 +20,27 @@ export async function handleGenerateTokenRequest(request: Request, manifest: Man
             bitmagnetUrl: bitmagnetUrlFromEnv || formData.get('bitmagnetUrl')?.toString() || '',
             tmdbApiKey: formData.get('tmdbApiKey')?.toString() || undefined,
             premiumizeApiKey: formData.get('premiumizeApiKey')?.toString() || undefined,
+            realDebridApiKey: formData.get('realDebridApiKey')?.toString() || undefined,
+            debridProvider: formData.get('debridProvider')?.toString() === 'RealDebrid' ? 'RealDebrid' : 'Premiumize',
+            offerDebridTransfers: formData.get('offerDebridTransfers') === 'on',
             bitmagnetTimeout: parseInt(formData.get('bitmagnetTimeout')?.toString() || getConfigDefault('bitmagnetTimeout', '30'), 10),
             bitmagnetSortField: formData.get('bitmagnetSortField')?.toString() || getConfigDefault('bitmagnetSortField', 'Seeders'),
             bitmagnetSortDescending: formData.get('bitmagnetSortDescending') === 'on', // Checkbox sends 'on' if checked
             bitmagnetSearchLimit: parseInt(formData.get('bitmagnetSearchLimit')?.toString() || getConfigDefault('bitmagnetSearchLimit', '30'), 10),
+            bitmagnetSearchMode: formData.get('bitmagnetSearchMode')?.toString() === 'TextOnly' ? 'TextOnly' : 'ContentFirst',
+            bitmagnetMaxPages: parseInt(formData.get('bitmagnetMaxPages')?.toString() || getConfigDefault('bitmagnetMaxPages', '3'), 10),
+            bitmagnetSearchBudget: parseInt(formData.get('bitmagnetSearchBudget')?.toString() || getConfigDefault('bitmagnetSearchBudget', '20'), 10),
+            allowedResolutions: parseFacetList(formData.get('allowedResolutions')?.toString(), VIDEO_RESOLUTION_OPTIONS),
+            excludedSources: parseFacetList(formData.get('excludedSources')?.toString(), VIDEO_SOURCE_OPTIONS),
+            requiredLanguages: parseFacetList(formData.get('requiredLanguages')?.toString(), LANGUAGE_OPTIONS),
+            rankingPreset: parseRankingPreset(formData.get('rankingPreset')?.toString()),
+            rankingWeights: rankingEngine.formatWeights(rankingEngine.parseWeights(formData.get('rankingWeights')?.toString())),
+            preferredLanguages: parseFacetList(formData.get('preferredLanguages')?.toString(), LANGUAGE_OPTIONS),
+            rankingDebug: formData.get('rankingDebug') === 'on',
+            maxStreamsPerResolution: parseInt(formData.get('maxStreamsPerResolution')?.toString() || getConfigDefault('maxStreamsPerResolution', '5'), 10),
+            titleMatchThreshold: parseInt(formData.get('titleMatchThreshold')?.toString() || getConfigDefault('titleMatchThreshold', '65'), 10),
+            titleMatchStrictness: parseTitleMatchStrictness(formData.get('titleMatchStrictness')?.toString()),
+            maxTotalStreams: parseInt(formData.get('maxTotalStreams')?.toString() || getConfigDefault('maxTotalStreams', '20'), 10),
         };
 
         // Validate the final bitmagnetUrl, whether from env or form
@@ -30,6 +50,11 @@ export async function handleGenerateTokenRequest(request: Request, manifest: Man
         }
         if (isNaN(config.bitmagnetTimeout) || config.bitmagnetTimeout < 5) config.bitmagnetTimeout = 30;
         if (isNaN(config.bitmagnetSearchLimit) || config.bitmagnetSearchLimit < 1 || config.bitmagnetSearchLimit > 100) config.bitmagnetSearchLimit = 30;
+        if (isNaN(config.bitmagnetMaxPages) || config.bitmagnetMaxPages < 1 || config.bitmagnetMaxPages > 10) config.bitmagnetMaxPages = 3;
+        if (isNaN(config.bitmagnetSearchBudget) || config.bitmagnetSearchBudget < 5) config.bitmagnetSearchBudget = 20;
+        if (isNaN(config.maxStreamsPerResolution) || config.maxStreamsPerResolution < 0 || config.maxStreamsPerResolution > 100) config.maxStreamsPerResolution = 5;
+        if (isNaN(config.titleMatchThreshold) || config.titleMatchThreshold < 0 || config.titleMatchThreshold > 100) config.titleMatchThreshold = 65;
+        if (isNaN(config.maxTotalStreams) || config.maxTotalStreams < 0 || config.maxTotalStreams > 500) config.maxTotalStreams = 20;
 
         const jweToken = await encryptConfig(config);
         console.log(`Generated JWE token for config starting with URL: ${config.bitmagnetUrl}`);
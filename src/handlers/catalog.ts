@@ -0,0 +1,77 @@
+import type { MetaPreview } from '../deps.ts';
+import { decryptConfig, isKeyInitialized } from '../lib/crypto.ts';
+import { catalogApi, catalogDefinitions, parseCatalogExtra } from '../lib/catalog.ts';
+import { getChunked, getKv, registerCacheNamespace, setChunked } from "../lib/kv_store.ts";
+
+const CACHE_PREFIX_CATALOG = registerCacheNamespace("catalog_", "Catalog pages");
+const CACHE_TTL_CATALOG_SECONDS = 15 * 60;
+
+// Handles catalog requests: /<jwe>/catalog/:type/:id.json and /<jwe>/catalog/:type/:id/:extra.json
+export async function handleCatalogRequest(jwe: string, type: string, catalogId: string, rawExtra?: string): Promise<Response> {
+    if (!isKeyInitialized()) {
+        console.error("Cannot process catalog request: Encryption key not initialized.");
+        return new Response('Server configuration error: Key not initialized.', { status: 500 });
+    }
+
+    const config = await decryptConfig(jwe);
+    if (!config) {
+        console.warn(`Invalid or undecryptable JWE token received for catalog request.`);
+        return new Response('Invalid or expired configuration token.', { status: 400 });
+    }
+
+    const definition = catalogDefinitions.find(def => def.id === catalogId && def.type === type);
+    if (!definition) {
+        console.error(`Unknown catalog requested: type=${type}, id=${catalogId}`);
+        return new Response('Unknown catalog.', { status: 404 });
+    }
+
+    // --- BEGIN: Override with Env Var ---
+    const bitmagnetUrlFromEnv = Deno.env.get("BITMAGNET_URL");
+    if (bitmagnetUrlFromEnv) {
+        console.log(`Catalog Request: Overriding Bitmagnet URL from token with environment variable: ${bitmagnetUrlFromEnv}`);
+        config.bitmagnetUrl = bitmagnetUrlFromEnv;
+    }
+    // --- END: Override with Env Var ---
+
+    const extra = parseCatalogExtra(rawExtra);
+    if (definition.filter === 'search' && !extra.search) {
+        console.warn(`Search catalog ${definition.id} requested without a search term.`);
+        return new Response(JSON.stringify({ metas: [] }), { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+    }
+
+    const cacheKey = [
+        CACHE_PREFIX_CATALOG + definition.id,
+        config.bitmagnetUrl,
+        extra.genre ?? "nogenre",
+        extra.search?.toLowerCase() ?? "nosearch",
+        extra.skip
+    ];
+    const logIdentifier = `${definition.id} (genre=${extra.genre ?? '-'}, search=${extra.search ?? '-'}, skip=${extra.skip})`;
+
+    try {
+        const kv = await getKv();
+        // A page of 100 metas with long overviews can pass Deno KV's 64 KiB value limit, so it is stored in parts.
+        const cachedMetas = await getChunked<MetaPreview[]>(kv, cacheKey);
+
+        if (cachedMetas !== null) {
+            console.log(`Cache hit for catalog ${logIdentifier}. Returning ${cachedMetas.length} cached metas.`);
+            const responseBody = JSON.stringify({ metas: cachedMetas });
+            return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+        }
+
+        console.log(`Cache miss for catalog ${logIdentifier}. Fetching from Bitmagnet...`);
+        const metas = await catalogApi.getCatalogMetas(definition, extra, config);
+        try {
+            await setChunked(kv, cacheKey, metas, { expireIn: CACHE_TTL_CATALOG_SECONDS * 1000 });
+        } catch (error) {
+            console.error(`Failed to cache catalog ${logIdentifier}:`, error instanceof Error ? error.message : error);
+        }
+
+        const responseBody = JSON.stringify({ metas: metas });
+        return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+
+    } catch (err) {
+        console.error(`Error processing catalog request for ${logIdentifier}:`, err);
+        return new Response("Internal server error during catalog processing.", { status: 500 });
+    }
+}
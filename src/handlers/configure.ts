@@ -2,6 +2,16 @@ import type { Manifest, ManifestConfigType } from '../deps.ts';
 import type { Config } from '../types.ts';
 import { isKeyInitialized } from '../lib/crypto.ts';
 
+// min/max attributes for number inputs, mirroring the validation in handleGenerateTokenRequest.
+const NUMBER_INPUT_BOUNDS: Record<string, { min: string; max: string }> = {
+    bitmagnetSearchLimit: { min: '1', max: '100' },
+    bitmagnetMaxPages: { min: '1', max: '10' },
+    maxStreamsPerResolution: { min: '0', max: '100' },
+    maxTotalStreams: { min: '0', max: '500' },
+    titleMatchThreshold: { min: '0', max: '100' },
+};
+const DEFAULT_NUMBER_INPUT_BOUNDS = { min: '5', max: '' };
+
 export function serveConfigPage(
     requestUrl: URL,
     manifest: Manifest,
@@ -56,9 +66,11 @@ export function serveConfigPage(
                     formHtml += `<input type="text" id="${inputId}" name="${escapeHtml(item.key)}" ${item.required ? 'required' : ''} placeholder="${escapeHtml(item.title || '')}" ${valueAttr}>\n`;
                 }
                 break;
-            case 'number':
-                formHtml += `<input type="number" id="${inputId}" name="${escapeHtml(item.key)}" ${item.required ? 'required' : ''} ${valueAttr} min="${item.key === 'bitmagnetSearchLimit' ? '1' : '5'}" max="${item.key === 'bitmagnetSearchLimit' ? '100' : ''}">\n`;
+            case 'number': {
+                const bounds = NUMBER_INPUT_BOUNDS[item.key] ?? DEFAULT_NUMBER_INPUT_BOUNDS;
+                formHtml += `<input type="number" id="${inputId}" name="${escapeHtml(item.key)}" ${item.required ? 'required' : ''} ${valueAttr} min="${bounds.min}" max="${bounds.max}">\n`;
                 break;
+            }
             case 'checkbox':
                 formHtml += `<input type="checkbox" id="${inputId}" name="${escapeHtml(item.key)}" ${checkedAttr}>\n`;
                 break;
@@ -0,0 +1,75 @@
+import { isKeyInitialized } from '../lib/crypto.ts';
+import { getKv } from '../lib/kv_store.ts';
+import { postGraphQL } from '../lib/bitmagnet/graphql.ts';
+import { trackerSource } from '../lib/trackers.ts';
+
+// Readiness probes must answer well within a Docker healthcheck timeout.
+const BITMAGNET_PROBE_TIMEOUT_MS = 5000;
+
+interface CheckResult {
+    ok: boolean;
+    // Failed optional checks are reported but keep the addon ready; streams still work without them.
+    required: boolean;
+    latencyMs: number;
+    detail?: string;
+}
+
+async function runCheck(required: boolean, probe: () => Promise<string | undefined> | string | undefined): Promise<CheckResult> {
+    const start = performance.now();
+    try {
+        const detail = await probe();
+        return { ok: true, required, latencyMs: Math.round(performance.now() - start), detail };
+    } catch (error) {
+        return { ok: false, required, latencyMs: Math.round(performance.now() - start), detail: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' } });
+}
+
+// Handles /health: the process is up and serving requests.
+export function handleHealthRequest(): Response {
+    return jsonResponse({ status: 'ok' }, 200);
+}
+
+// Handles /ready: 200 when every required dependency answers, 503 otherwise, with per-check status and latency.
+export async function handleReadyRequest(): Promise<Response> {
+    const bitmagnetUrl = Deno.env.get("BITMAGNET_URL");
+
+    const [encryptionKey, kv, bitmagnet, trackers] = await Promise.all([
+        runCheck(true, () => {
+            if (!isKeyInitialized()) throw new Error('Encryption key not initialized.');
+            return undefined;
+        }),
+        runCheck(true, async () => {
+            const store = await getKv();
+            await store.get(['ready_probe']);
+            return undefined;
+        }),
+        // Without BITMAGNET_URL every user brings their own instance, so there is nothing to probe.
+        bitmagnetUrl
+            ? runCheck(true, async () => {
+                const data = await postGraphQL<{ system?: { version?: string } }>(
+                    bitmagnetUrl, `query SystemVersion { system { version } }`, {}, BITMAGNET_PROBE_TIMEOUT_MS
+                );
+                return `version ${data?.system?.version ?? 'unknown'}`;
+            })
+            : null,
+        runCheck(false, () => {
+            const count = trackerSource.loadedCount();
+            if (count === 0) throw new Error('Tracker list not loaded.');
+            return `${count} trackers`;
+        }),
+    ]);
+
+    const checks: Record<string, CheckResult> = { encryptionKey, kv, trackers };
+    if (bitmagnet) checks.bitmagnet = bitmagnet;
+
+    const ready = Object.values(checks).every(check => check.ok || !check.required);
+    if (!ready) {
+        const failed = Object.entries(checks).filter(([, check]) => !check.ok && check.required).map(([name]) => name);
+        console.warn(`Readiness check failed: ${failed.join(', ')}`);
+    }
+    return jsonResponse({ status: ready ? 'ready' : 'not_ready', checks }, ready ? 200 : 503);
+}
@@ -0,0 +1,66 @@
+import type { MetaDetail } from '../deps.ts';
+import { decryptConfig, isKeyInitialized } from '../lib/crypto.ts';
+import { bitmagnetFunctions } from '../lib/bitmagnet/functions.ts';
+import { parseStremioId, createMetaDetail } from '../lib/stremio_helpers.ts';
+import { getKv, registerCacheNamespace } from "../lib/kv_store.ts";
+
+const CACHE_PREFIX_META = registerCacheNamespace("meta_", "Metadata pages of Bitmagnet-only content");
+const CACHE_TTL_META_SECONDS = 6 * 60 * 60;
+
+// Handles meta requests for Bitmagnet-only content: /<jwe>/meta/:type/bitmagnet:<source>:<id>.json
+export async function handleMetaRequest(jwe: string, type: string, rawId: string): Promise<Response> {
+    if (!isKeyInitialized()) {
+        console.error("Cannot process meta request: Encryption key not initialized.");
+        return new Response('Server configuration error: Key not initialized.', { status: 500 });
+    }
+
+    const config = await decryptConfig(jwe);
+    if (!config) {
+        console.warn(`Invalid or undecryptable JWE token received for meta request.`);
+        return new Response('Invalid or expired configuration token.', { status: 400 });
+    }
+
+    const id = decodeURIComponent(rawId);
+    const parsedId = parseStremioId({ type, id });
+    if (!parsedId?.contentRef) {
+        console.error(`Could not parse meta ID: type=${type}, id=${id}`);
+        return new Response('Invalid meta ID format.', { status: 400 });
+    }
+
+    // --- BEGIN: Override with Env Var ---
+    const bitmagnetUrlFromEnv = Deno.env.get("BITMAGNET_URL");
+    if (bitmagnetUrlFromEnv) {
+        console.log(`Meta Request: Overriding Bitmagnet URL from token with environment variable: ${bitmagnetUrlFromEnv}`);
+        config.bitmagnetUrl = bitmagnetUrlFromEnv;
+    }
+    // --- END: Override with Env Var ---
+
+    const cacheKey = [CACHE_PREFIX_META + parsedId.baseId, config.bitmagnetUrl, parsedId.searchType];
+
+    try {
+        const kv = await getKv();
+        const cachedResult = await kv.get<MetaDetail>(cacheKey);
+
+        if (cachedResult.value !== null) {
+            console.log(`Cache hit for meta ${parsedId.baseId}.`);
+            const responseBody = JSON.stringify({ meta: cachedResult.value });
+            return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+        }
+
+        const { source, id: contentId } = parsedId.contentRef;
+        const details = await bitmagnetFunctions.getContentDetails(source, contentId, parsedId.searchType, config);
+        if (!details) {
+            return new Response('Content not found.', { status: 404 });
+        }
+
+        const meta = createMetaDetail(details, parsedId.searchType);
+        await kv.set(cacheKey, meta, { expireIn: CACHE_TTL_META_SECONDS * 1000 });
+
+        const responseBody = JSON.stringify({ meta: meta });
+        return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+
+    } catch (err) {
+        console.error(`Error processing meta request for ${parsedId.baseId}:`, err);
+        return new Response("Internal server error during meta processing.", { status: 500 });
+    }
+}
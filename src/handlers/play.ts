@@ -0,0 +1,172 @@
+import { decryptConfig, fingerprint, isKeyInitialized } from '../lib/crypto.ts';
+import { getDebridApiKey, getDebridProvider, type DebridProvider, type ResolveLinkHints } from '../lib/debrid/providers.ts';
+import { getKv, registerCacheNamespace } from '../lib/kv_store.ts';
+
+const INFO_HASH_PATTERN = /^[a-f0-9]{40}$/i;
+
+const CACHE_PREFIX_TRANSFER = registerCacheNamespace("debrid_transfer_", "Running debrid transfers per account");
+// Long enough for slow torrents. A click after expiry starts a fresh transfer.
+const CACHE_TTL_TRANSFER_SECONDS = 24 * 60 * 60;
+
+// Optional short video played while a transfer is still running. Without it, a status message is returned.
+const TRANSFER_PLACEHOLDER_URL = Deno.env.get("TRANSFER_PLACEHOLDER_URL");
+
+interface TransferState {
+    transferId: string;
+    createdAt: number;
+}
+
+interface DebridRequestContext {
+    provider: DebridProvider;
+    apiKey: string;
+    infoHash: string;
+    hints: ResolveLinkHints;
+}
+
+function parseOptionalInt(value: string | null): number | undefined {
+    if (value === null) return undefined;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+function textResponse(message: string, status: number): Response {
+    return new Response(message, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Access-Control-Allow-Origin': '*' } });
+}
+
+// Decrypts the config and validates the path; returns an error response when the request can't be served.
+async function resolveRequestContext(
+    kind: string,
+    jwe: string,
+    infoHash: string,
+    rawFileIdx: string,
+    searchParams: URLSearchParams
+): Promise<DebridRequestContext | Response> {
+    if (!isKeyInitialized()) {
+        console.error(`Cannot process ${kind} request: Encryption key not initialized.`);
+        return new Response('Server configuration error: Key not initialized.', { status: 500 });
+    }
+
+    const config = await decryptConfig(jwe);
+    if (!config) {
+        console.warn(`Invalid or undecryptable JWE token received for ${kind} request.`);
+        return new Response('Invalid or expired configuration token.', { status: 400 });
+    }
+
+    if (!INFO_HASH_PATTERN.test(infoHash)) {
+        return new Response('Invalid info hash.', { status: 400 });
+    }
+
+    const provider = getDebridProvider(config);
+    const apiKey = getDebridApiKey(config);
+    if (!provider || !apiKey) {
+        console.warn(`${kind} request for ${infoHash} without a configured debrid provider.`);
+        return new Response('No debrid provider configured.', { status: 400 });
+    }
+
+    const fileIdx = parseOptionalInt(rawFileIdx);
+    return {
+        provider,
+        apiKey,
+        infoHash: infoHash.toLowerCase(),
+        hints: {
+            season: parseOptionalInt(searchParams.get('season')),
+            episode: parseOptionalInt(searchParams.get('episode')),
+            absoluteEpisode: parseOptionalInt(searchParams.get('absoluteEpisode')),
+            fileIdx: fileIdx !== undefined && fileIdx >= 0 ? fileIdx : undefined,
+        },
+    };
+}
+
+async function redirectToDirectLink({ provider, infoHash, hints }: DebridRequestContext): Promise<Response> {
+    const directLink = await provider.resolveLink(`magnet:?xt=urn:btih:${infoHash}`, hints);
+    if (!directLink) {
+        console.warn(`[${provider.label}] Could not resolve a direct download link for ${infoHash}.`);
+        return new Response('Could not resolve a stream link for this torrent.', { status: 502 });
+    }
+    console.log(`[${provider.label}] Redirecting playback of ${infoHash} to its direct download link.`);
+    return Response.redirect(directLink, 302);
+}
+
+function transferPendingResponse(provider: DebridProvider, progress: number | null): Response {
+    if (TRANSFER_PLACEHOLDER_URL) {
+        return Response.redirect(TRANSFER_PLACEHOLDER_URL, 302);
+    }
+    const progressText = progress !== null ? ` (${Math.round(progress * 100)}%)` : '';
+    return textResponse(
+        `${provider.label} is downloading this torrent${progressText}. Play this stream again once it has finished; ` +
+        `it will then also be listed as a cached stream.`,
+        202
+    );
+}
+
+// Transfers belong to a debrid account, so their state is keyed by a hash of the account's API key.
+async function transferStateKey(providerId: string, apiKey: string, infoHash: string): Promise<Deno.KvKey> {
+    return [CACHE_PREFIX_TRANSFER + providerId, await fingerprint(apiKey), infoHash];
+}
+
+// Handles playback requests: /<jwe>/play/:infoHash/:fileIdx?season=&episode=&absoluteEpisode=
+// Resolves the debrid link when the user picks the stream and redirects the player to it.
+export async function handlePlayRequest(jwe: string, infoHash: string, rawFileIdx: string, searchParams: URLSearchParams): Promise<Response> {
+    const context = await resolveRequestContext('play', jwe, infoHash, rawFileIdx, searchParams);
+    if (context instanceof Response) return context;
+
+    try {
+        return await redirectToDirectLink(context);
+    } catch (err) {
+        console.error(`Error resolving play request for ${infoHash}:`, err);
+        return new Response("Internal server error during link resolution.", { status: 500 });
+    }
+}
+
+// Handles "Send to" requests: /<jwe>/transfer/:infoHash/:fileIdx?season=&episode=&absoluteEpisode=
+// The first click starts a transfer of an uncached torrent; later clicks report its progress and,
+// once it has finished, play it like a cached stream.
+export async function handleTransferRequest(jwe: string, infoHash: string, rawFileIdx: string, searchParams: URLSearchParams): Promise<Response> {
+    const context = await resolveRequestContext('transfer', jwe, infoHash, rawFileIdx, searchParams);
+    if (context instanceof Response) return context;
+
+    const { provider, apiKey } = context;
+    if (!provider.createTransfer || !provider.getTransferStatus) {
+        return new Response(`${provider.label} does not support transfers.`, { status: 400 });
+    }
+
+    try {
+        const kv = await getKv();
+        const stateKey = await transferStateKey(provider.id, apiKey, context.infoHash);
+        const state = await kv.get<TransferState>(stateKey);
+
+        if (state.value !== null) {
+            const transfer = await provider.getTransferStatus(state.value.transferId);
+            if (!transfer) {
+                // A failed status lookup says nothing about the transfer; starting another one would duplicate it.
+                console.warn(`[${provider.label}] Could not read the status of transfer ${state.value.transferId} for ${context.infoHash}.`);
+                return transferPendingResponse(provider, null);
+            }
+            if (transfer.state === 'finished') {
+                console.log(`[${provider.label}] Transfer ${state.value.transferId} for ${context.infoHash} has finished.`);
+                return await redirectToDirectLink(context);
+            }
+            if (transfer.state === 'failed') {
+                console.warn(`[${provider.label}] Transfer ${state.value.transferId} for ${context.infoHash} failed: ${transfer.message}`);
+                await kv.delete(stateKey);
+                return textResponse(`${provider.label} could not download this torrent${transfer.message ? `: ${transfer.message}` : ''}.`, 502);
+            }
+            if (transfer.state === 'downloading') {
+                return transferPendingResponse(provider, transfer.progress);
+            }
+            // The transfer is gone from the account (e.g. removed by the user); start a new one.
+            console.log(`[${provider.label}] Transfer ${state.value.transferId} for ${context.infoHash} is gone, starting a new one.`);
+            await kv.delete(stateKey);
+        }
+
+        const transferId = await provider.createTransfer(`magnet:?xt=urn:btih:${context.infoHash}`);
+        if (!transferId) {
+            return textResponse(`${provider.label} refused to download this torrent.`, 502);
+        }
+        await kv.set(stateKey, { transferId, createdAt: Date.now() } satisfies TransferState, { expireIn: CACHE_TTL_TRANSFER_SECONDS * 1000 });
+        return transferPendingResponse(provider, null);
+    } catch (err) {
+        console.error(`Error processing transfer request for ${infoHash}:`, err);
+        return new Response("Internal server error during transfer processing.", { status: 500 });
+    }
+}
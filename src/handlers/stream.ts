@@ -1,14 +1,69 @@
 import type { Stream } from '../deps.ts';
 import { decryptConfig, isKeyInitialized } from '../lib/crypto.ts';
-import { parseStremioId, fetchAndSearchTorrents, createStreamsFromTorrents } from '../lib/stremio_helpers.ts';
+import { parseStremioId, resolveAnimeEpisode, fetchAndSearchTorrents, createStreamsFromTorrents, TRANSFER_PATH_PREFIX } from '../lib/stremio_helpers.ts';
 import { getKv } from "../lib/kv_store.ts"; 
+import { streamCache, STREAM_CACHE_FRESH_SECONDS, STREAM_CACHE_EMPTY_FRESH_SECONDS } from '../lib/stream_cache.ts';
+import { metrics } from '../lib/metrics.ts';
+import type { Config } from '../types.ts';
+import type { ParsedId } from '../lib/stremio_helpers.ts';
 
-const CACHE_PREFIX_STREAM = "stream_";
-const CACHE_TTL_STREAM_SECONDS = 60 * 60; 
-const CACHE_TTL_EMPTY_SECONDS = 5 * 60;  
+// Lists offering "Send to" streams go stale sooner, so finished transfers show up as cached streams.
+const CACHE_FRESH_TRANSFER_STREAMS_SECONDS = 5 * 60;
+
+// Debrid streams are cached with a relative /play/... URL; it only becomes playable under this addon's origin and token.
+function withPlayUrls(streams: Stream[], origin: string, jwe: string): Stream[] {
+    return streams.map(stream => stream.url?.startsWith('/') ? { ...stream, url: `${origin}/${jwe}${stream.url}` } : stream);
+}
+
+function jsonResponse(streams: Stream[], origin: string, jwe: string): Response {
+    metrics.streamsReturned.observe({}, streams.length);
+    const responseBody = JSON.stringify({ streams: withPlayUrls(streams, origin, jwe) });
+    return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+}
+
+// A failed cache write only costs a later cache miss, so it never fails the request.
+async function cacheWrite(write: Promise<void>, what: string, logIdentifier: string): Promise<void> {
+    try {
+        await write;
+    } catch (err) {
+        console.error(`Failed to cache ${what} for ${logIdentifier}:`, err);
+    }
+}
+
+// Searches (or reuses the shared search results), renders the streams for this config and caches them.
+async function refreshStreams(kv: Deno.Kv, streamKey: Deno.KvKey, parsedId: ParsedId, config: Config, logIdentifier: string): Promise<Stream[]> {
+    // Raw Bitmagnet results are shared by every config with the same search settings.
+    const searchKey = await streamCache.searchKey(parsedId, config);
+    const searchResult = await streamCache.coalesce(searchKey, async () => {
+        const cachedSearch = await streamCache.getSearchResult(kv, searchKey);
+        metrics.streamCacheLookups.inc({ layer: 'search', result: cachedSearch !== null ? 'hit' : 'miss' });
+        if (cachedSearch !== null) {
+            console.log(`Search cache hit for ${logIdentifier}: ${cachedSearch.torrents.length} torrents.`);
+            return cachedSearch;
+        }
+        console.log(`Cache miss for ${logIdentifier}. Fetching torrents...`);
+        const result = await fetchAndSearchTorrents(parsedId, config) ?? { torrents: [] };
+        const freshSeconds = result.torrents.length > 0 ? STREAM_CACHE_FRESH_SECONDS : STREAM_CACHE_EMPTY_FRESH_SECONDS;
+        await cacheWrite(streamCache.setSearchResult(kv, searchKey, result, freshSeconds), 'search result', logIdentifier);
+        return result;
+    });
+
+    if (searchResult.torrents.length === 0) {
+        console.log(`No torrents found by fetchAndSearchTorrents for ${logIdentifier}`);
+        await cacheWrite(streamCache.setStreams(kv, streamKey, [], STREAM_CACHE_EMPTY_FRESH_SECONDS), 'streams', logIdentifier);
+        return [];
+    }
+
+    const streams = await createStreamsFromTorrents(searchResult.torrents, parsedId, config);
+    console.log(`Found ${streams.length} streams for ${logIdentifier}. Caching result.`);
+    const hasTransferStreams = streams.some(stream => stream.url?.startsWith(TRANSFER_PATH_PREFIX));
+    const freshSeconds = hasTransferStreams ? Math.min(CACHE_FRESH_TRANSFER_STREAMS_SECONDS, STREAM_CACHE_FRESH_SECONDS) : STREAM_CACHE_FRESH_SECONDS;
+    await cacheWrite(streamCache.setStreams(kv, streamKey, streams, freshSeconds), 'streams', logIdentifier);
+    return streams;
+}
 
 // Handles stream requests: /<jwe>/stream/:type/:id.json
-export async function handleStreamRequest(jwe: string, type: string, rawId: string): Promise<Response> {
+export async function handleStreamRequest(jwe: string, type: string, rawId: string, origin: string): Promise<Response> {
     if (!isKeyInitialized()) {
         console.error("Cannot process stream request: Encryption key not initialized.");
         return new Response('Server configuration error: Key not initialized.', { status: 500 });
@@ -23,8 +78,8 @@ export async function handleStreamRequest(jwe: string, type: string, rawId: stri
     const id = decodeURIComponent(rawId);
     console.log(`Decoded stream request: type=${type}, id=${id}`);
 
-    const parsedId = parseStremioId({ type, id });
-    if (!parsedId) {
+    const rawParsedId = parseStremioId({ type, id });
+    if (!rawParsedId) {
         console.error(`Could not parse stream ID: type=${type}, id=${id}`);
         return new Response('Invalid stream ID format.', { status: 400 });
     }
@@ -37,39 +92,31 @@ export async function handleStreamRequest(jwe: string, type: string, rawId: stri
     }
     // --- END: Override with Env Var ---
 
-    const cacheKey = [
-        CACHE_PREFIX_STREAM + parsedId.imdbId,
-        parsedId.season ?? "nosn",
-        parsedId.episode ?? "noep"
-    ];
-    const logIdentifier = `${type} ${id} (${parsedId.imdbId} S${parsedId.season ?? '-'}E${parsedId.episode ?? '-'})`; 
+    const parsedId = await resolveAnimeEpisode(rawParsedId);
+
+    const logIdentifier = `${type} ${id} (${parsedId.baseId} S${parsedId.season ?? '-'}E${parsedId.episode ?? '-'})`; 
 
     try {
         const kv = await getKv(); 
-        const cachedResult = await kv.get<Stream[]>(cacheKey);
-
-        if (cachedResult.value !== null) {
-            console.log(`Cache hit for ${logIdentifier}. Returning ${cachedResult.value.length} cached streams.`);
-            const responseBody = JSON.stringify({ streams: cachedResult.value });
-            return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
-        }
+        // Rendered streams are cached per config, so one user's debrid streams, ranking and caps never reach another.
+        const streamKey = await streamCache.streamKey(parsedId, config);
+        const cached = await streamCache.getStreams(kv, streamKey);
+        metrics.streamCacheLookups.inc({ layer: 'stream', result: cached === null ? 'miss' : cached.isStale ? 'stale' : 'hit' });
 
-        console.log(`Cache miss for ${logIdentifier}. Fetching torrents...`);
-        const searchResult = await fetchAndSearchTorrents(parsedId, config);
-
-        let streams: Stream[] = [];
-        if (searchResult && searchResult.torrents.length > 0) {
-            streams = await createStreamsFromTorrents(searchResult.torrents, parsedId, searchResult.title, config);
-            console.log(`Found ${streams.length} streams for ${logIdentifier}. Caching result.`);
-            await kv.set(cacheKey, streams, { expireIn: CACHE_TTL_STREAM_SECONDS * 1000 }); 
-        } else {
-            console.log(`No torrents found by fetchAndSearchTorrents for ${logIdentifier}`);
-            await kv.set(cacheKey, [], { expireIn: CACHE_TTL_EMPTY_SECONDS * 1000 });
+        if (cached !== null) {
+            if (cached.isStale) {
+                console.log(`Stale cache hit for ${logIdentifier}. Returning ${cached.entry.streams.length} cached streams and refreshing in the background.`);
+                streamCache.coalesce(streamKey, () => refreshStreams(kv, streamKey, parsedId, config, logIdentifier))
+                    .catch(err => console.error(`Background refresh failed for ${logIdentifier}:`, err));
+            } else {
+                console.log(`Cache hit for ${logIdentifier}. Returning ${cached.entry.streams.length} cached streams.`);
+            }
+            return jsonResponse(cached.entry.streams, origin, jwe);
         }
 
+        const streams = await streamCache.coalesce(streamKey, () => refreshStreams(kv, streamKey, parsedId, config, logIdentifier));
         console.log(`Returning ${streams.length} streams for ${logIdentifier}`);
-        const responseBody = JSON.stringify({ streams: streams });
-        return new Response(responseBody, { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } });
+        return jsonResponse(streams, origin, jwe);
 
     } catch (err) {
         console.error(`Error processing stream request for ${logIdentifier}:`, err);
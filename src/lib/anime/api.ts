@@ -0,0 +1,213 @@
+import { getKv, registerCacheNamespace } from '../kv_store.ts';
+
+export type AnimeIdSource = 'kitsu' | 'mal';
+
+export interface AnimeDetails {
+    title: string;
+    // English, romaji and synonym titles; fansub groups name releases after any of them.
+    alternativeTitles: string[];
+    year?: number;
+    episodeCount?: number;
+    isMovie: boolean;
+    // Kitsu and MAL list every season as its own entry. These place the entry within its chain of TV prequels:
+    // the episodes aired before it and its 1-based season number.
+    episodeOffset: number;
+    season: number;
+}
+
+interface AnimeEntry {
+    title: string;
+    alternativeTitles: string[];
+    year?: number;
+    episodeCount?: number;
+    subtype?: string | null;
+}
+
+const KITSU_API_URL = 'https://kitsu.io/api/edge';
+const JIKAN_API_URL = 'https://api.jikan.moe/v4';
+const CACHE_PREFIX_ANIME = registerCacheNamespace('anime_', 'Kitsu and MyAnimeList details');
+const CACHE_TTL_ANIME_SECONDS = 7 * 24 * 60 * 60;
+// Details from an interrupted prequel walk may place the entry in the wrong season, so they are retried soon.
+const CACHE_TTL_ANIME_PARTIAL_SECONDS = 10 * 60;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Long-running shows rarely list more seasons than this; it also bounds the requests per lookup.
+const MAX_PREQUEL_DEPTH = 8;
+
+async function fetchJson(url: string, accept = 'application/json'): Promise<unknown> {
+    const response = await fetch(url, { headers: { 'Accept': accept }, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+        let errorBody = '';
+        try {
+            errorBody = await response.text();
+        } catch { /* ignore */ }
+        throw new Error(`${new URL(url).host} responded with status ${response.status}. Body: ${errorBody}`);
+    }
+    return response.json();
+}
+
+function uniqueTitles(main: string, candidates: (string | null | undefined)[]): string[] {
+    const seen = new Set([main.toLowerCase()]);
+    const titles: string[] = [];
+    for (const candidate of candidates) {
+        const title = candidate?.trim();
+        if (!title || seen.has(title.toLowerCase())) continue;
+        seen.add(title.toLowerCase());
+        titles.push(title);
+    }
+    return titles;
+}
+
+// --- Kitsu ---
+
+interface KitsuAnimeAttributes {
+    canonicalTitle?: string;
+    titles?: Record<string, string | null>;
+    abbreviatedTitles?: string[] | null;
+    startDate?: string | null;
+    episodeCount?: number | null;
+    subtype?: string | null;
+}
+
+function parseKitsuEntry(attributes?: KitsuAnimeAttributes): AnimeEntry | null {
+    if (!attributes?.canonicalTitle) return null;
+    const year = attributes.startDate ? parseInt(attributes.startDate.substring(0, 4), 10) : NaN;
+    return {
+        title: attributes.canonicalTitle,
+        alternativeTitles: uniqueTitles(attributes.canonicalTitle, [
+            attributes.titles?.en, attributes.titles?.en_jp, attributes.titles?.en_us, ...(attributes.abbreviatedTitles ?? []),
+        ]),
+        year: isNaN(year) ? undefined : year,
+        episodeCount: attributes.episodeCount ?? undefined,
+        subtype: attributes.subtype,
+    };
+}
+
+async function fetchKitsuEntry(id: string): Promise<AnimeEntry | null> {
+    const data = await fetchJson(`${KITSU_API_URL}/anime/${encodeURIComponent(id)}`, 'application/vnd.api+json') as
+        { data?: { attributes?: KitsuAnimeAttributes } };
+    return parseKitsuEntry(data?.data?.attributes);
+}
+
+async function fetchKitsuPrequel(id: string): Promise<{ id: string; entry: AnimeEntry } | null> {
+    const params = new URLSearchParams({
+        'filter[source_id]': id,
+        'filter[source_type]': 'Anime',
+        'filter[role]': 'prequel',
+        'include': 'destination',
+    });
+    const data = await fetchJson(`${KITSU_API_URL}/media-relationships?${params}`, 'application/vnd.api+json') as
+        { included?: { type: string; id: string; attributes?: KitsuAnimeAttributes }[] };
+    const prequel = data?.included?.find(item => item.type === 'anime');
+    const entry = parseKitsuEntry(prequel?.attributes);
+    return prequel && entry ? { id: prequel.id, entry } : null;
+}
+
+// --- MyAnimeList (through Jikan) ---
+
+interface JikanAnime {
+    title?: string;
+    title_english?: string | null;
+    title_synonyms?: string[] | null;
+    year?: number | null;
+    aired?: { prop?: { from?: { year?: number | null } } };
+    episodes?: number | null;
+    type?: string | null;
+}
+
+async function fetchJikanEntry(id: string): Promise<AnimeEntry | null> {
+    const data = await fetchJson(`${JIKAN_API_URL}/anime/${encodeURIComponent(id)}`) as { data?: JikanAnime };
+    const anime = data?.data;
+    if (!anime?.title) return null;
+    return {
+        title: anime.title,
+        alternativeTitles: uniqueTitles(anime.title, [anime.title_english, ...(anime.title_synonyms ?? [])]),
+        year: anime.year ?? anime.aired?.prop?.from?.year ?? undefined,
+        episodeCount: anime.episodes ?? undefined,
+        subtype: anime.type,
+    };
+}
+
+async function fetchJikanPrequel(id: string): Promise<{ id: string; entry: AnimeEntry } | null> {
+    const data = await fetchJson(`${JIKAN_API_URL}/anime/${encodeURIComponent(id)}/relations`) as
+        { data?: { relation: string; entry: { mal_id: number; type: string }[] }[] };
+    const prequel = data?.data?.find(relation => relation.relation === 'Prequel')?.entry.find(entry => entry.type === 'anime');
+    if (!prequel) return null;
+    const entry = await fetchJikanEntry(String(prequel.mal_id));
+    return entry ? { id: String(prequel.mal_id), entry } : null;
+}
+
+const sources: Record<AnimeIdSource, {
+    fetchEntry(id: string): Promise<AnimeEntry | null>;
+    fetchPrequel(id: string): Promise<{ id: string; entry: AnimeEntry } | null>;
+}> = {
+    kitsu: { fetchEntry: fetchKitsuEntry, fetchPrequel: fetchKitsuPrequel },
+    mal: { fetchEntry: fetchJikanEntry, fetchPrequel: fetchJikanPrequel },
+};
+
+// Walks back through TV prequels, summing their episodes. A failing lookup keeps what was found so far
+// and marks the result as incomplete.
+async function resolveSeasonPosition(source: AnimeIdSource, id: string): Promise<{ episodeOffset: number; season: number; complete: boolean }> {
+    let episodeOffset = 0;
+    let season = 1;
+    let currentId = id;
+    for (let depth = 0; depth < MAX_PREQUEL_DEPTH; depth++) {
+        let prequel: { id: string; entry: AnimeEntry } | null;
+        try {
+            prequel = await sources[source].fetchPrequel(currentId);
+        } catch (error) {
+            console.warn(`[Anime] Could not look up prequel of ${source}:${currentId}:`, error instanceof Error ? error.message : error);
+            return { episodeOffset, season, complete: false };
+        }
+        if (!prequel) break;
+        if (prequel.entry.subtype?.toUpperCase() === 'TV') {
+            episodeOffset += prequel.entry.episodeCount ?? 0;
+            season++;
+        }
+        currentId = prequel.id;
+    }
+    return { episodeOffset, season, complete: true };
+}
+
+/**
+ * Looks up a Kitsu or MyAnimeList entry: its titles, year and where it sits among its seasons,
+ * so per-season episode numbers can be turned into absolute ones. Results are cached in KV.
+ */
+async function _getAnimeDetails(source: AnimeIdSource, id: string): Promise<AnimeDetails | null> {
+    const cacheKey = [CACHE_PREFIX_ANIME + source, id];
+    try {
+        const kv = await getKv();
+        const cached = await kv.get<AnimeDetails>(cacheKey);
+        if (cached.value !== null) {
+            return cached.value;
+        }
+
+        const entry = await sources[source].fetchEntry(id);
+        if (!entry) {
+            console.warn(`[Anime] No ${source} entry found for ${id}.`);
+            return null;
+        }
+
+        const isMovie = entry.subtype?.toLowerCase() === 'movie';
+        const { complete, ...position } = isMovie ? { episodeOffset: 0, season: 1, complete: true } : await resolveSeasonPosition(source, id);
+        const details: AnimeDetails = {
+            title: entry.title,
+            alternativeTitles: entry.alternativeTitles,
+            year: entry.year,
+            episodeCount: entry.episodeCount,
+            isMovie,
+            ...position,
+        };
+        console.log(`[Anime] Resolved ${source}:${id}: Title=${details.title}, Season=${details.season}, EpisodeOffset=${details.episodeOffset}${complete ? '' : ' (incomplete)'}`);
+        const ttlSeconds = complete ? CACHE_TTL_ANIME_SECONDS : CACHE_TTL_ANIME_PARTIAL_SECONDS;
+        await kv.set(cacheKey, details, { expireIn: ttlSeconds * 1000 });
+        return details;
+    } catch (error) {
+        console.error(`[Anime] Error fetching ${source} details for ${id}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+// Export functions within an object
+export const animeApi = {
+    getAnimeDetails: _getAnimeDetails,
+};
@@ -0,0 +1,174 @@
+import { postGraphQL } from './graphql.ts';
+
+/**
+ * Bitmagnet changed the shape of `torrentContent.search` over time:
+ * - 'legacy': search(query: SearchQueryInput, facets: TorrentContentFacetsInput, orderBy: [TorrentContentOrderByInput!])
+ *   with PascalCase order fields (see schema.graphql in this repo).
+ * - 'input': search(input: TorrentContentSearchQueryInput!) with facets/orderBy nested in the input
+ *   and snake_case order fields.
+ */
+export type SearchApiFlavor = 'legacy' | 'input';
+
+export interface BitmagnetApiInfo {
+    version: string | null;
+    flavor: SearchApiFlavor;
+}
+
+// User-facing order fields. These match the config options and the legacy enum values.
+export enum TorrentContentOrderBy {
+    Relevance = 'Relevance',
+    PublishedAt = 'PublishedAt',
+    UpdatedAt = 'UpdatedAt',
+    Size = 'Size',
+    Files = 'Files',
+    Seeders = 'Seeders',
+    Leechers = 'Leechers',
+    Name = 'Name',
+    InfoHash = 'InfoHash',
+}
+
+const INPUT_ORDER_FIELDS: Record<TorrentContentOrderBy, string> = {
+    [TorrentContentOrderBy.Relevance]: 'relevance',
+    [TorrentContentOrderBy.PublishedAt]: 'published_at',
+    [TorrentContentOrderBy.UpdatedAt]: 'updated_at',
+    [TorrentContentOrderBy.Size]: 'size',
+    [TorrentContentOrderBy.Files]: 'files_count',
+    [TorrentContentOrderBy.Seeders]: 'seeders',
+    [TorrentContentOrderBy.Leechers]: 'leechers',
+    [TorrentContentOrderBy.Name]: 'name',
+    [TorrentContentOrderBy.InfoHash]: 'info_hash',
+};
+
+// First Bitmagnet release that only accepts search(input: ...).
+const INPUT_FLAVOR_MIN_VERSION: [number, number, number] = [0, 10, 0];
+// Flavor used when the version is unknown or cannot be parsed (e.g. development builds).
+const DEFAULT_FLAVOR: SearchApiFlavor = 'input';
+const VERSION_CACHE_TTL_MS = 60 * 60 * 1000;
+const VERSION_RETRY_TTL_MS = 60 * 1000;
+const VERSION_TIMEOUT_MS = 5000;
+
+export interface SearchRequestParams {
+    queryString?: string;
+    limit: number;
+    offset?: number;
+    cached?: boolean;
+    totalCount?: boolean;
+    hasNextPage?: boolean;
+    facets: Record<string, unknown>;
+    orderBy?: { field: TorrentContentOrderBy; descending: boolean }[];
+}
+
+export function parseVersion(version: string): [number, number, number] | null {
+    const match = version.match(/(\d+)\.(\d+)\.(\d+)/);
+    if (!match) return null;
+    return [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+}
+
+export function flavorForVersion(version: string | null): SearchApiFlavor {
+    const parsed = version ? parseVersion(version) : null;
+    if (!parsed) return DEFAULT_FLAVOR;
+    for (let i = 0; i < 3; i++) {
+        if (parsed[i] !== INPUT_FLAVOR_MIN_VERSION[i]) {
+            return parsed[i] > INPUT_FLAVOR_MIN_VERSION[i] ? 'input' : 'legacy';
+        }
+    }
+    return 'input';
+}
+
+const apiInfoCache = new Map<string, { info: Promise<BitmagnetApiInfo>; expiresAt: number }>();
+
+async function fetchApiInfo(baseUrl: string): Promise<BitmagnetApiInfo> {
+    const data = await postGraphQL<{ system?: { version?: string } }>(
+        baseUrl,
+        `query SystemVersion { system { version } }`,
+        {},
+        VERSION_TIMEOUT_MS
+    );
+    const version = data?.system?.version ?? null;
+    const flavor = flavorForVersion(version);
+    console.log(`[Bitmagnet] Detected version ${version ?? 'unknown'} at ${baseUrl}, using '${flavor}' search API.`);
+    return { version, flavor };
+}
+
+/**
+ * Returns the version and search API flavor of a Bitmagnet instance.
+ * Detected on first use and re-checked hourly, so an upgrade is picked up without a restart.
+ */
+function _getApiInfo(baseUrl: string): Promise<BitmagnetApiInfo> {
+    const cached = apiInfoCache.get(baseUrl);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.info;
+    }
+
+    const info = fetchApiInfo(baseUrl).catch((error) => {
+        console.warn(`[Bitmagnet] Could not read system version from ${baseUrl}, assuming '${DEFAULT_FLAVOR}' search API:`, error instanceof Error ? error.message : error);
+        apiInfoCache.set(baseUrl, { info, expiresAt: Date.now() + VERSION_RETRY_TTL_MS });
+        return { version: null, flavor: DEFAULT_FLAVOR };
+    });
+    apiInfoCache.set(baseUrl, { info, expiresAt: Date.now() + VERSION_CACHE_TTL_MS });
+    return info;
+}
+
+/**
+ * Builds a `torrentContent.search` operation in the shape the given flavor expects.
+ * `selection` is the selection set requested from the search result (items, aggregations, ...).
+ */
+function _buildSearchRequest(
+    flavor: SearchApiFlavor,
+    operationName: string,
+    selection: string,
+    params: SearchRequestParams
+): { query: string; variables: Record<string, unknown> } {
+    const queryInput = {
+        queryString: params.queryString || undefined,
+        limit: params.limit,
+        offset: params.offset,
+        cached: params.cached,
+        totalCount: params.totalCount,
+        hasNextPage: params.hasNextPage,
+    };
+
+    if (flavor === 'legacy') {
+        return {
+            query: `
+                query ${operationName}($query: SearchQueryInput, $facets: TorrentContentFacetsInput, $orderBy: [TorrentContentOrderByInput!]) {
+                    torrentContent {
+                        search(query: $query, facets: $facets, orderBy: $orderBy) {
+                            ${selection}
+                        }
+                    }
+                }
+            `,
+            variables: {
+                query: queryInput,
+                facets: params.facets,
+                orderBy: params.orderBy,
+            },
+        };
+    }
+
+    return {
+        query: `
+            query ${operationName}($input: TorrentContentSearchQueryInput!) {
+                torrentContent {
+                    search(input: $input) {
+                        ${selection}
+                    }
+                }
+            }
+        `,
+        variables: {
+            input: {
+                ...queryInput,
+                facets: params.facets,
+                orderBy: params.orderBy?.map(order => ({ field: INPUT_ORDER_FIELDS[order.field], descending: order.descending })),
+            },
+        },
+    };
+}
+
+// Export functions within an object
+export const bitmagnetCompat = {
+    getApiInfo: _getApiInfo,
+    buildSearchRequest: _buildSearchRequest,
+};
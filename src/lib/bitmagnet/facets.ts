@@ -0,0 +1,50 @@
+import { type Config } from "../../types.ts";
+
+// Values users can pick in the configure page. Resolutions drop Bitmagnet's 'V' enum prefix.
+export const VIDEO_RESOLUTION_OPTIONS = ['4320p', '2160p', '1440p', '1080p', '720p', '576p', '540p', '480p', '360p'] as const;
+export const VIDEO_SOURCE_OPTIONS = ['CAM', 'TELESYNC', 'TELECINE', 'WORKPRINT', 'DVD', 'TV', 'WEBDL', 'WEBRip', 'BluRay'] as const;
+export const LANGUAGE_OPTIONS = [
+    'ar', 'bs', 'bg', 'ca', 'zh', 'cs', 'da', 'nl', 'en', 'et', 'fi', 'fr', 'de', 'el', 'he', 'hi', 'hr', 'hu', 'is', 'id',
+    'it', 'ja', 'ko', 'lv', 'lt', 'mk', 'ml', 'no', 'fa', 'pl', 'pt', 'ro', 'ru', 'sk', 'sl', 'es', 'sr', 'sv', 'ta', 'th',
+    'tr', 'uk', 'vi', 'af', 'hy', 'az', 'eu', 'be', 'ce', 'co', 'ka', 'ku', 'mi', 'ms', 'mt', 'mn', 'sa', 'sm', 'so', 'cy',
+    'yi', 'zu',
+] as const;
+
+/**
+ * Normalizes a list of facet values to their canonical spelling, dropping anything unknown.
+ * Accepts either a comma-separated string (form input) or an array (decrypted config).
+ */
+export function parseFacetList(raw: unknown, allowed: readonly string[]): string[] {
+    const values = Array.isArray(raw)
+        ? raw.map(String)
+        : typeof raw === 'string' ? raw.split(',') : [];
+    const canonical = new Map(allowed.map(value => [value.toLowerCase(), value]));
+    const result: string[] = [];
+    for (const value of values) {
+        const match = canonical.get(value.trim().toLowerCase().replace(/^v(?=\d)/, ''));
+        if (match && !result.includes(match)) result.push(match);
+    }
+    return result;
+}
+
+/**
+ * Turns the user's quality preferences into Bitmagnet facet filters so the search itself excludes
+ * unwanted releases. Source exclusion is expressed as "every other source", plus null so releases
+ * with an unknown source are kept.
+ */
+export function buildQualityFacets(config: Config): Record<string, { filter: unknown[] }> {
+    const facets: Record<string, { filter: unknown[] }> = {};
+
+    if (config.allowedResolutions.length > 0) {
+        facets.videoResolution = { filter: config.allowedResolutions.map(resolution => `V${resolution}`) };
+    }
+    if (config.excludedSources.length > 0) {
+        const allowedSources = VIDEO_SOURCE_OPTIONS.filter(source => !config.excludedSources.includes(source));
+        facets.videoSource = { filter: [...allowedSources, null] };
+    }
+    if (config.requiredLanguages.length > 0) {
+        facets.language = { filter: config.requiredLanguages };
+    }
+
+    return facets;
+}
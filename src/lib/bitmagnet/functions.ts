@@ -1,7 +1,13 @@
 import { Config } from "../../types.ts";
+import { bitmagnetCompat, TorrentContentOrderBy } from './compat.ts';
+import { postGraphQL } from './graphql.ts';
+import { buildQualityFacets } from './facets.ts';
+
+export { TorrentContentOrderBy };
 
 export interface TorrentInfo {
     title: string;
+    infoHash?: string;
     magnetUrl?: string;
     size?: number;
     resolution: string;
@@ -11,10 +17,64 @@ export interface TorrentInfo {
     videoSource?: string | null;
     languages: string[];
     files?: { path: string; size: number; index: number }[];
+    // Seasons/episodes Bitmagnet's classifier found in the torrent name. An empty episode list means the whole season.
+    episodes?: TorrentEpisodes;
+    content?: ContentInfo;
+}
+
+export interface TorrentEpisodes {
+    label: string;
+    seasons: { season: number; episodes: number[] }[];
+}
+
+export interface ContentInfo {
+    type?: string | null;
+    source: string;
+    id: string;
+    title: string;
+    releaseYear?: number | null;
+    overview?: string | null;
+    imdbId?: string;
+}
+
+export interface ContentDetails extends ContentInfo {
+    originalTitle?: string | null;
+    releaseDate?: string | null;
+    runtime?: number | null;
+    voteAverage?: number | null;
+    genres: string[];
+    seasons: { season: number; episodes: number[] }[];
+}
+
+export interface SearchOptions {
+    offset?: number;
+    limit?: number;
+    orderBy?: { field: TorrentContentOrderBy; descending: boolean };
+    genres?: string[];
+    releaseYears?: number[];
+    // Multi-page fetching (bitmagnetSearch only). Defaults come from the user's config.
+    maxPages?: number;
+    budgetMs?: number;
+    // Per-request timeout; defaults to the configured Bitmagnet timeout.
+    timeoutMs?: number;
+    // Also match torrents Bitmagnet could not classify, e.g. fansub releases it did not link to content.
+    includeUnclassified?: boolean;
+    // Apply the user's resolution, source and language filters. Catalogs leave them out: their pages are
+    // cached per Bitmagnet instance and shared by every user. Defaults to true.
+    qualityFilters?: boolean;
+    // Request each torrent's file list. Catalogs only need the content, so they leave it out. Defaults to true.
+    includeFiles?: boolean;
+}
+
+export interface SearchPage {
+    torrents: TorrentInfo[];
+    hasMore: boolean;
+    totalCount?: number;
 }
 
 export interface GraphQLTorrentItem { 
     title: string;
+    infoHash?: string;
     torrent?: {
         magnetUri?: string;
         size?: number;
@@ -31,12 +91,46 @@ export interface GraphQLTorrentItem {
     videoCodec?: string | null;
     videoSource?: string | null;
     languages?: { name: string; __typename?: string }[] | null;
+    episodes?: { label: string; seasons: { season: number; episodes?: number[] | null }[] } | null;
+    content?: GraphQLContent | null;
+}
+
+export interface GraphQLContent {
+    type?: string | null;
+    source: string;
+    id: string;
+    title: string;
+    releaseYear?: number | null;
+    overview?: string | null;
+    attributes?: { source: string; key: string; value: string }[];
+    externalLinks?: { url: string }[];
+    originalTitle?: string | null;
+    releaseDate?: string | null;
+    runtime?: number | null;
+    voteAverage?: number | null;
+    collections?: { type: string; name: string }[];
+}
+
+export interface GraphQLContentDetailsResponse {
+    data?: {
+        torrentContent?: {
+            search?: {
+                items?: {
+                    content?: GraphQLContent | null;
+                    episodes?: { seasons: { season: number; episodes?: number[] | null }[] } | null;
+                }[];
+            };
+        };
+    };
+    errors?: { message: string }[];
 }
 
 export interface GraphQLSearchResponse {
     data?: {
         torrentContent?: {
             search?: {
+                totalCount?: number;
+                hasNextPage?: boolean | null;
                 items?: GraphQLTorrentItem[];
             };
         };
@@ -72,18 +166,44 @@ export interface GraphQLCountResponse {
     errors?: { message: string }[];
 }
 
-const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
-    let timeoutId: ReturnType<typeof setTimeout>;
+export interface GraphQLGenreResponse {
+    data?: {
+        torrentContent?: {
+            search?: {
+                aggregations?: {
+                    genre?: GraphQLContentAggregation[];
+                };
+            };
+        };
+    };
+    errors?: { message: string }[];
+}
 
-    const timeoutPromise = new Promise<never>((_resolve, reject) => {
-        timeoutId = setTimeout(() => {
-            reject(new Error(`Promise timed out after ${ms} ms`));
-        }, ms);
-    });
+const IMDB_LINK_REGEX = /imdb\.com\/title\/(tt\d+)/i;
 
-    return Promise.race([promise, timeoutPromise]).finally(() => {
-        clearTimeout(timeoutId);
-    });
+// Bitmagnet stores the IMDB id either as the content id itself, as an attribute, or as an external link.
+const extractImdbId = (content: GraphQLContent): string | undefined => {
+    if (content.source === 'imdb' && content.id.startsWith('tt')) return content.id;
+    const attribute = content.attributes?.find(attr => attr.source === 'imdb' && attr.key === 'id');
+    if (attribute?.value.startsWith('tt')) return attribute.value;
+    for (const link of content.externalLinks || []) {
+        const match = link.url.match(IMDB_LINK_REGEX);
+        if (match) return match[1];
+    }
+    return undefined;
+};
+
+export const parseContent = (content?: GraphQLContent | null): ContentInfo | undefined => {
+    if (!content || !content.source || !content.id) return undefined;
+    return {
+        type: content.type,
+        source: content.source,
+        id: content.id,
+        title: content.title,
+        releaseYear: content.releaseYear,
+        overview: content.overview,
+        imdbId: extractImdbId(content),
+    };
 };
 
 export const parseGraphQLResults = (data: GraphQLSearchResponse): TorrentInfo[] => { // Export for testing
@@ -95,6 +215,7 @@ export const parseGraphQLResults = (data: GraphQLSearchResponse): TorrentInfo[]
         )
         .map((item): TorrentInfo => {
             const title = item.title;
+            const infoHash = item.infoHash?.toLowerCase();
             const magnetUrl = item.torrent?.magnetUri;
             const size = item.torrent?.size;
             const resolution = item.videoResolution ? item.videoResolution.replace(/^V/, '') : 'Unknown';
@@ -104,9 +225,14 @@ export const parseGraphQLResults = (data: GraphQLSearchResponse): TorrentInfo[]
             const videoSource = item.videoSource;
             const languages = item.languages?.map(lang => lang.name) || [];
             const files = item.torrent?.files?.map(f => ({ path: f.path, size: f.size, index: f.index }));
+            const episodes = item.episodes
+                ? { label: item.episodes.label, seasons: item.episodes.seasons.map(s => ({ season: s.season, episodes: s.episodes ?? [] })) }
+                : undefined;
+            const content = parseContent(item.content);
 
             return {
                 title,
+                infoHash,
                 magnetUrl,
                 size,
                 resolution,
@@ -116,6 +242,8 @@ export const parseGraphQLResults = (data: GraphQLSearchResponse): TorrentInfo[]
                 videoSource,
                 languages,
                 files,
+                episodes,
+                content,
             };
         });
 
@@ -140,22 +268,67 @@ export const parseContentCounts = (data: GraphQLCountResponse): ContentCounts =>
 
 const validTypes: { [key in 'movie' | 'series']: string } = { movie: 'movie', series: 'tv_show' };
 
-// FIX: Updated enum values to match snake_case from Bitmagnet GraphQL schema
-enum TorrentContentOrderBy {
-    Relevance = 'relevance',
-    PublishedAt = 'published_at',
-    UpdatedAt = 'updated_at',
-    Size = 'size',
-    Files = 'files_count', // Corrected to 'files_count' as per schema
-    Seeders = 'seeders',
-    Leechers = 'leechers',
-    Name = 'name',
-    InfoHash = 'info_hash',
-}
-
+const CONTENT_COUNTS_TIMEOUT_MS = 30 * 1000;
+
+// File lists are by far the largest part of a search response; torrents can list thousands of files.
+const TORRENT_FILES_SELECTION = `
+            files {
+                path
+                size
+                index
+            }`;
+
+const torrentItemSelection = (includeFiles: boolean): string => `
+    totalCount
+    hasNextPage
+    items {
+        title
+        infoHash
+        torrent {
+            magnetUri
+            size
+            seeders
+            leechers${includeFiles ? TORRENT_FILES_SELECTION : ''}
+        }
+        videoResolution
+        videoCodec # Request video codec
+        videoSource # Request video source
+        languages { # Request languages
+            name
+        }
+        episodes {
+            label
+            seasons {
+                season
+                episodes
+            }
+        }
+        content {
+            type
+            source
+            id
+            title
+            releaseYear
+            overview
+            attributes {
+                source
+                key
+                value
+            }
+            externalLinks {
+                url
+            }
+        }
+    }
+`;
 
 // Keep original function name internal
-async function _bitmagnetSearch(queryString: string, type: 'movie' | 'series', config: Config): Promise<TorrentInfo[]> {
+async function _bitmagnetSearchPage(
+    queryString: string,
+    type: 'movie' | 'series',
+    config: Config,
+    options: SearchOptions = {}
+): Promise<SearchPage> {
     console.log(`Entering Bitmagnet GraphQL search with query: "${queryString}", Type: ${type}`);
     const baseUrl = config.bitmagnetUrl; 
 
@@ -168,97 +341,55 @@ async function _bitmagnetSearch(queryString: string, type: 'movie' | 'series', c
     const defaultSortDescending = true;
 
     const sortFieldInput = config.bitmagnetSortField || defaultSortField;
-    const sortField = Object.values(TorrentContentOrderBy).includes(sortFieldInput as TorrentContentOrderBy)
+    const sortField = options.orderBy?.field ?? (Object.values(TorrentContentOrderBy).includes(sortFieldInput as TorrentContentOrderBy)
         ? sortFieldInput as TorrentContentOrderBy
-        : defaultSortField;
-    const sortDescending = config.bitmagnetSortDescending ?? defaultSortDescending;
+        : defaultSortField);
+    const sortDescending = options.orderBy?.descending ?? config.bitmagnetSortDescending ?? defaultSortDescending;
     console.log(`Sorting by: ${sortField}, Descending: ${sortDescending}`);
 
-    const searchLimit = config.bitmagnetSearchLimit ?? 20; // Use config limit or default
-    console.log(`Search Limit: ${searchLimit}, Using Cache: true`);
-
-    const query = `
-        query TorrentContentSearch($input: TorrentContentSearchQueryInput!) {
-            torrentContent {
-                search(input: $input) {
-                    items {
-                        title
-                        torrent {
-                            magnetUri
-                            size
-                            seeders
-                            leechers
-                            files {
-                                path
-                                size
-                                index
-                            }
-                        }
-                        videoResolution
-                        videoCodec # Request video codec
-                        videoSource # Request video source
-                        languages { # Request languages
-                            name
-                        }
-                    }
-                }
-            }
-        }
-    `;
+    const searchLimit = options.limit ?? config.bitmagnetSearchLimit ?? 20; // Use config limit or default
+    const offset = options.offset ?? 0;
+    console.log(`Search Limit: ${searchLimit}, Offset: ${offset}, Using Cache: true`);
 
-    const variables = {
-        input: {
-            queryString: queryString,
-            limit: searchLimit,
-            offset: 0,
-            cached: true,
-            facets: {
-                contentType: {
-                    filter: [contentType],
-                },
-            },
-            orderBy: [
-                { field: sortField, descending: sortDescending },
-            ],
+    const facets: Record<string, { filter: unknown[] }> = {
+        ...((options.qualityFilters ?? true) ? buildQualityFacets(config) : {}),
+        contentType: {
+            filter: options.includeUnclassified ? [contentType, null] : [contentType],
         },
     };
-
-    const requestOptions: RequestInit = {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-        },
-        body: JSON.stringify({ query, variables }),
-    };
+    if (options.genres && options.genres.length > 0) {
+        facets.genre = { filter: options.genres };
+    }
+    if (options.releaseYears && options.releaseYears.length > 0) {
+        facets.releaseYear = { filter: options.releaseYears };
+    }
 
     try {
-        const response = await withTimeout(
-            fetch(`${baseUrl}/graphql`, requestOptions),
-            (config.bitmagnetTimeout * 1000)
-        );
-
-        if (!response.ok) {
-            let errorBody = 'Could not read error body';
-            try {
-                errorBody = await response.text();
-            } catch (e) {
-                // deno-lint-ignore no-explicit-any
-                console.error("Failed to read error response body:", (e as any)?.message || e);
-            }
-            throw new Error(`GraphQL API responded with status ${response.status}: ${errorBody}`);
-        }
-
-        const responseData: GraphQLSearchResponse = await response.json();
-
-        if (responseData.errors && responseData.errors.length > 0) {
-            const errorMessages = responseData.errors.map(e => e.message).join(', ');
-            throw new Error(`GraphQL query errors: ${errorMessages}`);
-        }
+        const { flavor } = await bitmagnetCompat.getApiInfo(baseUrl);
+        const { query, variables } = bitmagnetCompat.buildSearchRequest(flavor, 'TorrentContentSearch', torrentItemSelection(options.includeFiles ?? true), {
+            queryString,
+            limit: searchLimit,
+            offset,
+            cached: true,
+            totalCount: true,
+            hasNextPage: true,
+            facets,
+            orderBy: [{ field: sortField, descending: sortDescending }],
+        });
 
-        const results = parseGraphQLResults(responseData); 
-        console.log(`Found ${results.length} torrents for query: "${queryString}"`);
-        return results;
+        const data = await postGraphQL<GraphQLSearchResponse['data']>(baseUrl, query, variables, options.timeoutMs ?? config.bitmagnetTimeout * 1000);
+
+        const results = parseGraphQLResults({ data }); 
+        const search = data?.torrentContent?.search;
+        const itemCount = search?.items?.length ?? 0;
+        // Prefer Bitmagnet's own paging info; older instances may not fill hasNextPage.
+        const hasMore = typeof search?.hasNextPage === 'boolean'
+            ? search.hasNextPage
+            : typeof search?.totalCount === 'number'
+                ? offset + itemCount < search.totalCount
+                : itemCount >= searchLimit;
+        console.log(`Found ${results.length} torrents for query: "${queryString}" (total: ${search?.totalCount ?? 'unknown'}, more: ${hasMore})`);
+        return { torrents: results, hasMore, totalCount: search?.totalCount };
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         if (errorMessage.includes('timed out')) {
@@ -271,6 +402,99 @@ async function _bitmagnetSearch(queryString: string, type: 'movie' | 'series', c
     }
 };
 
+/**
+ * Fetches up to `maxPages` pages while Bitmagnet reports more results and the overall time budget allows.
+ * Pages are merged and deduplicated by info hash. A failing later page keeps what was already fetched.
+ */
+async function _bitmagnetSearch(
+    queryString: string,
+    type: 'movie' | 'series',
+    config: Config,
+    options: SearchOptions = {}
+): Promise<TorrentInfo[]> {
+    const maxPages = options.maxPages ?? config.bitmagnetMaxPages ?? 1;
+    const budgetMs = options.budgetMs ?? (config.bitmagnetSearchBudget ?? config.bitmagnetTimeout) * 1000;
+    const pageSize = options.limit ?? config.bitmagnetSearchLimit ?? 20;
+    const startedAt = Date.now();
+    const seen = new Set<string>();
+    const merged: TorrentInfo[] = [];
+
+    for (let pageIndex = 0; pageIndex < maxPages; pageIndex++) {
+        const remainingMs = budgetMs - (Date.now() - startedAt);
+        if (pageIndex > 0 && remainingMs <= 0) {
+            console.log(`Search budget of ${budgetMs} ms used up after ${pageIndex} page(s) for query: "${queryString}"`);
+            break;
+        }
+
+        let page: SearchPage;
+        try {
+            page = await _bitmagnetSearchPage(queryString, type, config, {
+                ...options,
+                offset: (options.offset ?? 0) + pageIndex * pageSize,
+                limit: pageSize,
+                // The first page keeps the normal timeout; later pages must fit in what is left of the budget.
+                timeoutMs: pageIndex === 0 ? options.timeoutMs : Math.min(remainingMs, options.timeoutMs ?? config.bitmagnetTimeout * 1000),
+            });
+        } catch (error) {
+            if (pageIndex === 0) throw error;
+            console.warn(`Stopping after ${pageIndex} page(s) for query "${queryString}":`, error instanceof Error ? error.message : error);
+            break;
+        }
+
+        for (const torrent of page.torrents) {
+            const key = torrent.infoHash ?? torrent.magnetUrl ?? torrent.title;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            merged.push(torrent);
+        }
+
+        if (!page.hasMore) break;
+    }
+
+    if (maxPages > 1) {
+        console.log(`Merged ${merged.length} unique torrents for query: "${queryString}"`);
+    }
+    return merged;
+}
+
+// Returns the genre facet values Bitmagnet knows for a content type, so Stremio genre names can be mapped onto them.
+async function _getGenreAggregations(type: 'movie' | 'series', config: Config): Promise<GraphQLContentAggregation[]> {
+    const baseUrl = config.bitmagnetUrl;
+
+    if (!baseUrl) throw new Error('Bitmagnet URL is not set in configuration.');
+
+    const selection = `
+        aggregations {
+            genre {
+                value
+                label
+                count
+            }
+        }
+    `;
+
+    try {
+        const { flavor } = await bitmagnetCompat.getApiInfo(baseUrl);
+        const { query, variables } = bitmagnetCompat.buildSearchRequest(flavor, 'GetGenres', selection, {
+            limit: 0,
+            facets: {
+                contentType: {
+                    filter: [validTypes[type]],
+                },
+                genre: {
+                    aggregate: true,
+                },
+            },
+        });
+
+        const data = await postGraphQL<GraphQLGenreResponse['data']>(baseUrl, query, variables, config.bitmagnetTimeout * 1000);
+        return data?.torrentContent?.search?.aggregations?.genre || [];
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Error fetching genre aggregations from Bitmagnet:', errorMessage);
+        throw new Error(`Failed to fetch genre aggregations from Bitmagnet: ${errorMessage}`);
+    }
+}
 
 // Keep original function name internal
 async function _getContentCounts(): Promise<ContentCounts> {
@@ -278,74 +502,168 @@ async function _getContentCounts(): Promise<ContentCounts> {
 
     if (!baseUrl) throw new Error('BITMAGNET_URL is not set in environment variables.');
 
-    const query = `
-        query GetContentCounts($input: TorrentContentSearchQueryInput!) {
-            torrentContent {
-                search(input: $input) {
-                    aggregations {
-                        contentType {
-                            value
-                            label
-                            count
-                        }
-                    }
-                }
+    const selection = `
+        aggregations {
+            contentType {
+                value
+                label
+                count
             }
         }
     `;
 
-    const variables = {
-        input: {
+    try {
+        const { flavor } = await bitmagnetCompat.getApiInfo(baseUrl);
+        const { query, variables } = bitmagnetCompat.buildSearchRequest(flavor, 'GetContentCounts', selection, {
             limit: 0, 
             facets: {
                 contentType: {
                     aggregate: true,
                 },
             },
-        },
-    };
+        });
 
-    const requestOptions: RequestInit = { 
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-        },
-        body: JSON.stringify({ query, variables }),
-    };
+        const data = await postGraphQL<GraphQLCountResponse['data']>(baseUrl, query, variables, CONTENT_COUNTS_TIMEOUT_MS);
 
-    try {
-        const response = await fetch(`${baseUrl}/graphql`, requestOptions);
-
-        if (!response.ok) {
-            let errorBody = 'Could not read error body';
-            try {
-                errorBody = await response.text();
-            } catch (e) {
-                // deno-lint-ignore no-explicit-any
-                console.error("Failed to read error response body:", (e as any)?.message || e);
+        const counts = parseContentCounts({ data });
+        return counts;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Error fetching content counts from Bitmagnet:', errorMessage);
+        throw new Error(`Failed to fetch content counts from Bitmagnet: ${errorMessage}`);
+    }
+}
+
+const CONTENT_DETAILS_SELECTION = `
+    items {
+        content {
+            type
+            source
+            id
+            title
+            originalTitle
+            releaseDate
+            releaseYear
+            overview
+            runtime
+            voteAverage
+            collections {
+                type
+                name
+            }
+            attributes {
+                source
+                key
+                value
+            }
+            externalLinks {
+                url
             }
-            throw new Error(`GraphQL API responded with status ${response.status}: ${errorBody}`);
         }
+        episodes {
+            seasons {
+                season
+                episodes
+            }
+        }
+    }
+`;
+
+// Searches for a content identifier and merges every matching item into one ContentDetails record.
+async function fetchContentDetails(
+    queryString: string,
+    matches: (content: GraphQLContent) => boolean,
+    type: 'movie' | 'series',
+    config: Config
+): Promise<ContentDetails | null> {
+    const baseUrl = config.bitmagnetUrl;
+
+    if (!baseUrl) throw new Error('Bitmagnet URL is not set in configuration.');
+
+    const { flavor } = await bitmagnetCompat.getApiInfo(baseUrl);
+    const { query, variables } = bitmagnetCompat.buildSearchRequest(flavor, 'ContentDetails', CONTENT_DETAILS_SELECTION, {
+        queryString,
+        limit: 100,
+        cached: true,
+        facets: {
+            contentType: {
+                filter: [validTypes[type]],
+            },
+        },
+    });
 
-        const responseData: GraphQLCountResponse = await response.json();
+    const data = await postGraphQL<GraphQLContentDetailsResponse['data']>(baseUrl, query, variables, config.bitmagnetTimeout * 1000);
 
-        if (responseData.errors && responseData.errors.length > 0) {
-            const errorMessages = responseData.errors.map(e => e.message).join(', ');
-            throw new Error(`GraphQL query errors: ${errorMessages}`);
+    const items = (data?.torrentContent?.search?.items || [])
+        .filter(item => item.content && matches(item.content));
+    const content = items[0]?.content;
+    const contentInfo = parseContent(content);
+    if (!content || !contentInfo) {
+        return null;
+    }
+
+    const seasons = new Map<number, Set<number>>();
+    for (const item of items) {
+        for (const season of item.episodes?.seasons || []) {
+            const episodes = seasons.get(season.season) ?? new Set<number>();
+            season.episodes?.forEach(episode => episodes.add(episode));
+            seasons.set(season.season, episodes);
         }
+    }
 
-        const counts = parseContentCounts(responseData);
-        return counts;
+    return {
+        ...contentInfo,
+        originalTitle: content.originalTitle,
+        releaseDate: content.releaseDate,
+        runtime: content.runtime,
+        voteAverage: content.voteAverage,
+        genres: (content.collections || []).filter(c => c.type === 'genre').map(c => c.name),
+        seasons: [...seasons.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([season, episodes]) => ({ season, episodes: [...episodes].sort((a, b) => a - b) })),
+    };
+}
+
+/**
+ * Looks up a single Bitmagnet Content record. There is no direct content query in the API, so this
+ * searches for the content id (Bitmagnet indexes content identifiers) and keeps exact source/id matches.
+ * Episodes of every matching torrent are merged so series metas can list their videos.
+ */
+async function _getContentDetails(source: string, id: string, type: 'movie' | 'series', config: Config): Promise<ContentDetails | null> {
+    try {
+        const details = await fetchContentDetails(id, content => content.source === source && content.id === id, type, config);
+        if (!details) {
+            console.log(`No Bitmagnet content found for ${source}:${id}`);
+        }
+        return details;
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('Error fetching content counts from Bitmagnet:', errorMessage);
-        throw new Error(`Failed to fetch content counts from Bitmagnet: ${errorMessage}`);
+        console.error(`Error fetching Bitmagnet content ${source}:${id}:`, errorMessage);
+        throw new Error(`Failed to fetch content from Bitmagnet: ${errorMessage}`);
+    }
+}
+
+// Finds the Content record Bitmagnet linked to an IMDB id (through its source, attributes or external links).
+async function _findContentByImdbId(imdbId: string, type: 'movie' | 'series', config: Config): Promise<ContentDetails | null> {
+    try {
+        const details = await fetchContentDetails(imdbId, content => extractImdbId(content) === imdbId, type, config);
+        if (!details) {
+            console.log(`No Bitmagnet content linked to ${imdbId}`);
+        }
+        return details;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error finding Bitmagnet content for ${imdbId}:`, errorMessage);
+        throw new Error(`Failed to find content in Bitmagnet: ${errorMessage}`);
     }
 }
 
 const bitmagnetFunctions = {
     bitmagnetSearch: _bitmagnetSearch,
+    bitmagnetSearchPage: _bitmagnetSearchPage,
+    getGenreAggregations: _getGenreAggregations,
+    getContentDetails: _getContentDetails,
+    findContentByImdbId: _findContentByImdbId,
     getContentCounts: _getContentCounts,
 };
 
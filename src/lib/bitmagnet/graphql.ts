@@ -0,0 +1,89 @@
+import { metrics } from '../metrics.ts';
+
+export interface GraphQLResponse<T> {
+    data?: T;
+    errors?: { message: string }[];
+}
+
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const timeoutPromise = new Promise<never>((_resolve, reject) => {
+        timeoutId = setTimeout(() => {
+            reject(new Error(`Promise timed out after ${ms} ms`));
+        }, ms);
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() => {
+        clearTimeout(timeoutId);
+    });
+};
+
+/**
+ * Posts a GraphQL operation to a Bitmagnet instance and returns its `data`.
+ * Throws on HTTP failures, GraphQL errors and timeouts (the message then contains "timed out").
+ * Latency and failures are recorded per operation name.
+ */
+export async function postGraphQL<T>(
+    baseUrl: string,
+    query: string,
+    variables: Record<string, unknown>,
+    timeoutMs: number
+): Promise<T> {
+    const operation = query.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1] ?? 'anonymous';
+    const stopTimer = metrics.bitmagnetRequestDuration.startTimer({ operation });
+    try {
+        return await sendGraphQL<T>(baseUrl, query, variables, timeoutMs);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const kind = message.includes('timed out') ? 'timeout'
+            : message.startsWith('GraphQL API responded') ? 'http'
+            : message.startsWith('GraphQL query errors') ? 'graphql'
+            : 'network';
+        metrics.bitmagnetErrors.inc({ operation, kind });
+        throw error;
+    } finally {
+        stopTimer();
+    }
+}
+
+async function sendGraphQL<T>(
+    baseUrl: string,
+    query: string,
+    variables: Record<string, unknown>,
+    timeoutMs: number
+): Promise<T> {
+    const requestOptions: RequestInit = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+    };
+
+    const response = await withTimeout(
+        fetch(`${baseUrl}/graphql`, requestOptions),
+        timeoutMs
+    );
+
+    if (!response.ok) {
+        let errorBody = 'Could not read error body';
+        try {
+            errorBody = await response.text();
+        } catch (e) {
+            // deno-lint-ignore no-explicit-any
+            console.error("Failed to read error response body:", (e as any)?.message || e);
+        }
+        throw new Error(`GraphQL API responded with status ${response.status}: ${errorBody}`);
+    }
+
+    const responseData: GraphQLResponse<T> = await response.json();
+
+    if (responseData.errors && responseData.errors.length > 0) {
+        const errorMessages = responseData.errors.map(e => e.message).join(', ');
+        throw new Error(`GraphQL query errors: ${errorMessages}`);
+    }
+
+    return responseData.data as T;
+}
@@ -0,0 +1,176 @@
+import { getCacheNamespaces, getKv, type CacheNamespace } from './kv_store.ts';
+
+export interface CacheEntrySummary {
+    key: Deno.KvKey;
+    namespace: string | null;
+    sizeBytes: number;
+    ageSeconds: number | null;
+}
+
+export interface CacheEntryDetail extends CacheEntrySummary {
+    value: unknown;
+    versionstamp: string;
+}
+
+export interface NamespaceStats {
+    prefix: string | null;
+    description: string;
+    entries: number;
+    approxBytes: number;
+}
+
+export type PurgeTarget = { imdbId: string } | { prefix: string } | { all: true };
+
+// Sorts after any character used in cache keys, so [prefix] .. [prefix + LAST_CHAR] spans every key part starting with prefix.
+const LAST_CHAR = '\uffff';
+const DELETE_BATCH_SIZE = 100;
+const DEFAULT_LIST_LIMIT = 200;
+
+function namespaceOf(key: Deno.KvKey): CacheNamespace | null {
+    const first = key[0];
+    if (typeof first !== 'string') return null;
+    // Longest match first, so "premiumize_cache_" wins over a hypothetical "premiumize_".
+    return [...getCacheNamespaces()]
+        .sort((a, b) => b.prefix.length - a.prefix.length)
+        .find(namespace => first.startsWith(namespace.prefix)) ?? null;
+}
+
+function approximateSize(value: unknown): number {
+    return new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+}
+
+// Deno KV keeps no write time, so the age comes from the timestamp entries store themselves, if any.
+function ageOf(value: unknown): number | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const record = value as Record<string, unknown>;
+    const timestamp = typeof record.storedAt === 'number' ? record.storedAt : typeof record.createdAt === 'number' ? record.createdAt : null;
+    return timestamp === null ? null : Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+}
+
+// Parts written by setChunked ([...key, 'part', i]) belong to the header entry at `key`; they are
+// counted towards its size instead of being listed as entries of their own.
+function isChunkPart(key: Deno.KvKey): boolean {
+    return key.length >= 2 && key[key.length - 2] === 'part' && typeof key[key.length - 1] === 'number';
+}
+
+function isPartOf(part: Deno.KvKey, key: Deno.KvKey): boolean {
+    return part.length === key.length + 2 && key.every((keyPart, i) => keyPart === part[i]);
+}
+
+function summarize(entry: Deno.KvEntry<unknown>): CacheEntrySummary {
+    return {
+        key: entry.key,
+        namespace: namespaceOf(entry.key)?.prefix ?? null,
+        sizeBytes: approximateSize(entry.value),
+        ageSeconds: ageOf(entry.value),
+    };
+}
+
+function selectorsFor(target: PurgeTarget): Deno.KvListSelector[] {
+    if ('imdbId' in target) {
+        return getCacheNamespaces().map(namespace => ({ prefix: [namespace.prefix + target.imdbId] }));
+    }
+    if ('prefix' in target) {
+        return [{ start: [target.prefix], end: [target.prefix + LAST_CHAR] }];
+    }
+    return [{ prefix: [] }];
+}
+
+/**
+ * Lists cached entries, optionally only those of one title (`imdbId`, or any other Stremio base id)
+ * or those whose first key part starts with `prefix`.
+ */
+async function _listEntries(
+    options: { imdbId?: string; prefix?: string; limit?: number } = {}
+): Promise<{ entries: CacheEntrySummary[]; truncated: boolean }> {
+    const kv = await getKv();
+    const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+    const target: PurgeTarget = options.imdbId ? { imdbId: options.imdbId } : options.prefix ? { prefix: options.prefix } : { all: true };
+
+    const entries: CacheEntrySummary[] = [];
+    for (const selector of selectorsFor(target)) {
+        for await (const entry of kv.list(selector)) {
+            // Parts sort right after their header, so they belong to the last listed entry.
+            if (isChunkPart(entry.key)) {
+                const header = entries.at(-1);
+                if (header && isPartOf(entry.key, header.key)) header.sizeBytes += approximateSize(entry.value);
+                continue;
+            }
+            if (entries.length >= limit) return { entries, truncated: true };
+            entries.push(summarize(entry));
+        }
+    }
+    return { entries, truncated: false };
+}
+
+async function _getEntry(key: Deno.KvKey): Promise<CacheEntryDetail | null> {
+    const kv = await getKv();
+    const entry = await kv.get(key);
+    if (entry.versionstamp === null) return null;
+    return { ...summarize(entry), value: entry.value, versionstamp: entry.versionstamp };
+}
+
+/**
+ * Deletes one title's entries across all namespaces, every entry under a key prefix, or everything.
+ * Returns the number of deleted entries, not counting the parts of chunked values.
+ */
+async function _purge(target: PurgeTarget): Promise<number> {
+    const kv = await getKv();
+    let deleted = 0;
+    for (const selector of selectorsFor(target)) {
+        let batch: Deno.KvKey[] = [];
+        for await (const entry of kv.list(selector)) {
+            batch.push(entry.key);
+            if (!isChunkPart(entry.key)) deleted++;
+            if (batch.length >= DELETE_BATCH_SIZE) {
+                await deleteBatch(kv, batch);
+                batch = [];
+            }
+        }
+        await deleteBatch(kv, batch);
+    }
+
+    const purgedNamespaces = getCacheNamespaces().filter(namespace =>
+        'all' in target || ('prefix' in target && (namespace.prefix.startsWith(target.prefix) || target.prefix.startsWith(namespace.prefix))));
+    purgedNamespaces.forEach(namespace => namespace.onPurge?.());
+
+    console.log(`[CacheAdmin] Purged ${deleted} entries (${JSON.stringify(target)}).`);
+    return deleted;
+}
+
+async function deleteBatch(kv: Deno.Kv, keys: Deno.KvKey[]): Promise<void> {
+    if (keys.length === 0) return;
+    const operation = kv.atomic();
+    keys.forEach(key => operation.delete(key));
+    await operation.commit();
+}
+
+// Entry counts and approximate JSON size per namespace; chunk parts add to the size only.
+// Reads every entry, so it is meant for the admin page only.
+async function _stats(): Promise<{ namespaces: NamespaceStats[]; totalEntries: number; totalApproxBytes: number }> {
+    const kv = await getKv();
+    const byPrefix = new Map<string | null, NamespaceStats>(getCacheNamespaces().map(namespace =>
+        [namespace.prefix, { prefix: namespace.prefix, description: namespace.description, entries: 0, approxBytes: 0 }]));
+    byPrefix.set(null, { prefix: null, description: 'Entries outside any registered namespace', entries: 0, approxBytes: 0 });
+
+    let totalEntries = 0;
+    let totalApproxBytes = 0;
+    for await (const entry of kv.list({ prefix: [] })) {
+        const stats = byPrefix.get(namespaceOf(entry.key)?.prefix ?? null)!;
+        const size = approximateSize(entry.value);
+        const entries = isChunkPart(entry.key) ? 0 : 1;
+        stats.entries += entries;
+        stats.approxBytes += size;
+        totalEntries += entries;
+        totalApproxBytes += size;
+    }
+    return { namespaces: [...byPrefix.values()], totalEntries, totalApproxBytes };
+}
+
+// Export functions within an object
+export const cacheAdmin = {
+    listEntries: _listEntries,
+    getEntry: _getEntry,
+    purge: _purge,
+    stats: _stats,
+};
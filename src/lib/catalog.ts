@@ -0,0 +1,185 @@
+import type { ManifestCatalog, MetaPreview } from '../deps.ts';
+import { bitmagnetFunctions, type SearchPage, TorrentContentOrderBy } from './bitmagnet/functions.ts';
+import { createMetaPreviews } from './stremio_helpers.ts';
+import { type Config } from '../types.ts';
+
+export interface CatalogDefinition {
+    id: string;
+    type: 'movie' | 'series';
+    name: string;
+    filter: 'genre' | 'year' | 'search';
+}
+
+export interface CatalogExtra {
+    skip: number;
+    genre?: string;
+    search?: string;
+}
+
+const CATALOG_PAGE_SIZE = 100;
+const CATALOG_BATCH_SIZE = 100;
+const CATALOG_MAX_BATCHES = 30;
+// Total time for all batches of one catalog page; later batches only get what is left of it.
+const CATALOG_BUDGET_MS = 20 * 1000;
+const SEARCH_RESULT_LIMIT = 100;
+
+// Genre names as Bitmagnet stores them from TMDB; they are matched against the genre facet labels.
+const MOVIE_GENRES = [
+    'Action', 'Adventure', 'Animation', 'Comedy', 'Crime', 'Documentary', 'Drama', 'Family', 'Fantasy', 'History',
+    'Horror', 'Music', 'Mystery', 'Romance', 'Science Fiction', 'TV Movie', 'Thriller', 'War', 'Western',
+];
+const SERIES_GENRES = [
+    'Action & Adventure', 'Animation', 'Comedy', 'Crime', 'Documentary', 'Drama', 'Family', 'Kids', 'Mystery', 'News',
+    'Reality', 'Sci-Fi & Fantasy', 'Soap', 'Talk', 'War & Politics', 'Western',
+];
+
+const currentYear = new Date().getFullYear();
+const YEAR_OPTIONS = Array.from({ length: currentYear - 1969 }, (_, i) => String(currentYear - i));
+
+export const catalogDefinitions: CatalogDefinition[] = [
+    { id: 'bitmagnet-recent-movie', type: 'movie', name: 'Recently indexed movies', filter: 'genre' },
+    { id: 'bitmagnet-recent-series', type: 'series', name: 'Recently indexed series', filter: 'genre' },
+    { id: 'bitmagnet-year-movie', type: 'movie', name: 'Indexed movies by year', filter: 'year' },
+    { id: 'bitmagnet-year-series', type: 'series', name: 'Indexed series by year', filter: 'year' },
+    { id: 'bitmagnet-search-movie', type: 'movie', name: 'Bitmagnet', filter: 'search' },
+    { id: 'bitmagnet-search-series', type: 'series', name: 'Bitmagnet', filter: 'search' },
+];
+
+// Builds the manifest entries. Year catalogs reuse the 'genre' extra for the year picker, the same way Cinemeta does.
+export function getManifestCatalogs(): ManifestCatalog[] {
+    return catalogDefinitions.map((definition): ManifestCatalog => {
+        if (definition.filter === 'search') {
+            return {
+                type: definition.type,
+                id: definition.id,
+                name: definition.name,
+                extra: [{ name: 'search', isRequired: true }],
+            };
+        }
+        const options = definition.filter === 'year'
+            ? YEAR_OPTIONS
+            : definition.type === 'movie' ? MOVIE_GENRES : SERIES_GENRES;
+        return {
+            type: definition.type,
+            id: definition.id,
+            name: definition.name,
+            extra: [
+                { name: 'genre', options, isRequired: definition.filter === 'year' },
+                { name: 'skip' },
+            ],
+        };
+    });
+}
+
+// Parses the Stremio extra path segment, e.g. "genre=Drama&skip=100" or "search=blade%20runner".
+export function parseCatalogExtra(rawExtra?: string): CatalogExtra {
+    const params = new URLSearchParams(rawExtra || '');
+    const skip = parseInt(params.get('skip') || '0', 10);
+    return {
+        skip: isNaN(skip) || skip < 0 ? 0 : skip,
+        genre: params.get('genre') || undefined,
+        search: params.get('search')?.trim() || undefined,
+    };
+}
+
+const genreValueCache = new Map<string, Map<string, string>>();
+
+async function resolveGenreValue(genre: string, type: 'movie' | 'series', config: Config): Promise<string | undefined> {
+    const cacheKey = `${config.bitmagnetUrl}|${type}`;
+    let values = genreValueCache.get(cacheKey);
+    if (!values) {
+        const aggregations = await bitmagnetFunctions.getGenreAggregations(type, config);
+        values = new Map(aggregations.map(agg => [agg.label.toLowerCase(), agg.value]));
+        genreValueCache.set(cacheKey, values);
+    }
+    return values.get(genre.toLowerCase());
+}
+
+// Sends free text from Stremio's search bar to Bitmagnet and collapses the hits per content item.
+async function searchCatalogMetas(definition: CatalogDefinition, search: string, config: Config): Promise<MetaPreview[]> {
+    const torrents = await bitmagnetFunctions.bitmagnetSearch(search, definition.type, config, {
+        limit: SEARCH_RESULT_LIMIT,
+        maxPages: 1,
+        includeFiles: false,
+        qualityFilters: false,
+        orderBy: { field: TorrentContentOrderBy.Relevance, descending: true },
+    });
+    const metas = createMetaPreviews(torrents, definition.type);
+    console.log(`[Catalog] Search "${search}" in ${definition.id} matched ${torrents.length} torrents and ${metas.length} titles.`);
+    return metas;
+}
+
+/**
+ * Returns one page of meta previews for a catalog.
+ * Bitmagnet pages over torrents while Stremio pages over titles, so torrent batches are
+ * fetched until enough distinct content items exist to cover the requested skip window.
+ */
+async function _getCatalogMetas(definition: CatalogDefinition, extra: CatalogExtra, config: Config): Promise<MetaPreview[]> {
+    if (definition.filter === 'search') {
+        return extra.search ? await searchCatalogMetas(definition, extra.search, config) : [];
+    }
+
+    let genres: string[] | undefined;
+    let releaseYears: number[] | undefined;
+
+    if (extra.genre && definition.filter === 'genre') {
+        const genreValue = await resolveGenreValue(extra.genre, definition.type, config);
+        if (!genreValue) {
+            console.warn(`[Catalog] Genre "${extra.genre}" is not known to Bitmagnet, returning no results.`);
+            return [];
+        }
+        genres = [genreValue];
+    } else if (extra.genre && definition.filter === 'year') {
+        const year = parseInt(extra.genre, 10);
+        if (isNaN(year)) {
+            console.warn(`[Catalog] Invalid year "${extra.genre}" for catalog ${definition.id}.`);
+            return [];
+        }
+        releaseYears = [year];
+    }
+
+    const wanted = extra.skip + CATALOG_PAGE_SIZE;
+    const metas = new Map<string, MetaPreview>();
+    const startedAt = Date.now();
+
+    for (let batch = 0; batch < CATALOG_MAX_BATCHES && metas.size < wanted; batch++) {
+        const remainingMs = CATALOG_BUDGET_MS - (Date.now() - startedAt);
+        if (batch > 0 && remainingMs <= 0) {
+            console.log(`[Catalog] Budget of ${CATALOG_BUDGET_MS} ms used up after ${batch} batch(es) for ${definition.id}.`);
+            break;
+        }
+
+        let page: SearchPage;
+        try {
+            page = await bitmagnetFunctions.bitmagnetSearchPage('', definition.type, config, {
+                offset: batch * CATALOG_BATCH_SIZE,
+                limit: CATALOG_BATCH_SIZE,
+                orderBy: { field: TorrentContentOrderBy.PublishedAt, descending: true },
+                genres,
+                releaseYears,
+                includeFiles: false,
+                qualityFilters: false,
+                timeoutMs: batch === 0 ? undefined : Math.min(remainingMs, config.bitmagnetTimeout * 1000),
+            });
+        } catch (error) {
+            if (batch === 0) throw error;
+            console.warn(`[Catalog] Stopping after ${batch} batch(es) for ${definition.id}:`, error instanceof Error ? error.message : error);
+            break;
+        }
+
+        for (const meta of createMetaPreviews(page.torrents, definition.type)) {
+            if (!metas.has(meta.id)) metas.set(meta.id, meta);
+        }
+
+        if (!page.hasMore) break;
+    }
+
+    const result = [...metas.values()].slice(extra.skip, wanted);
+    console.log(`[Catalog] ${definition.id} (genre=${extra.genre ?? '-'}, skip=${extra.skip}) returned ${result.length} metas.`);
+    return result;
+}
+
+// Export functions within an object
+export const catalogApi = {
+    getCatalogMetas: _getCatalogMetas,
+};
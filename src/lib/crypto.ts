@@ -1,5 +1,8 @@
 import { jose } from '../deps.ts';
 import type { Config } from '../types.ts'; 
+import { parseFacetList, VIDEO_RESOLUTION_OPTIONS, VIDEO_SOURCE_OPTIONS, LANGUAGE_OPTIONS } from './bitmagnet/facets.ts';
+import { parseRankingPreset } from './ranking.ts';
+import { parseTitleMatchStrictness } from './title_match.ts';
 
 const ADDON_SECRET_KEY_ENV = Deno.env.get('ADDON_SECRET_KEY');
 let addonSecretKey: CryptoKey | null = null;
@@ -50,13 +53,35 @@ export async function decryptConfig(jwe: string): Promise<Config | null> {
         const finalConfig: Config = {
             bitmagnetUrl: parsed.bitmagnetUrl,
             tmdbApiKey: parsed.tmdbApiKey || undefined, premiumizeApiKey: parsed.premiumizeApiKey || undefined,
+            realDebridApiKey: parsed.realDebridApiKey || undefined,
+            debridProvider: parsed.debridProvider === 'RealDebrid' ? 'RealDebrid' : 'Premiumize',
+            offerDebridTransfers: parsed.offerDebridTransfers === true,
             bitmagnetTimeout: typeof parsed.bitmagnetTimeout === 'number' ? parsed.bitmagnetTimeout : 30,
             bitmagnetSortField: typeof parsed.bitmagnetSortField === 'string' ? parsed.bitmagnetSortField : 'Seeders',
             bitmagnetSortDescending: typeof parsed.bitmagnetSortDescending === 'boolean' ? parsed.bitmagnetSortDescending : true,
             bitmagnetSearchLimit: typeof parsed.bitmagnetSearchLimit === 'number' ? parsed.bitmagnetSearchLimit : 30,
+            bitmagnetSearchMode: parsed.bitmagnetSearchMode === 'TextOnly' ? 'TextOnly' : 'ContentFirst',
+            bitmagnetMaxPages: typeof parsed.bitmagnetMaxPages === 'number' ? parsed.bitmagnetMaxPages : 3,
+            bitmagnetSearchBudget: typeof parsed.bitmagnetSearchBudget === 'number' ? parsed.bitmagnetSearchBudget : 20,
+            allowedResolutions: parseFacetList(parsed.allowedResolutions, VIDEO_RESOLUTION_OPTIONS),
+            excludedSources: parseFacetList(parsed.excludedSources, VIDEO_SOURCE_OPTIONS),
+            requiredLanguages: parseFacetList(parsed.requiredLanguages, LANGUAGE_OPTIONS),
+            rankingPreset: parseRankingPreset(parsed.rankingPreset),
+            rankingWeights: typeof parsed.rankingWeights === 'string' ? parsed.rankingWeights : '',
+            preferredLanguages: parseFacetList(parsed.preferredLanguages, LANGUAGE_OPTIONS),
+            rankingDebug: parsed.rankingDebug === true,
+            maxStreamsPerResolution: typeof parsed.maxStreamsPerResolution === 'number' ? parsed.maxStreamsPerResolution : 5,
+            titleMatchThreshold: typeof parsed.titleMatchThreshold === 'number' ? parsed.titleMatchThreshold : 65,
+            titleMatchStrictness: parseTitleMatchStrictness(parsed.titleMatchStrictness),
+            maxTotalStreams: typeof parsed.maxTotalStreams === 'number' ? parsed.maxTotalStreams : 20,
         };
         if (isNaN(finalConfig.bitmagnetTimeout) || finalConfig.bitmagnetTimeout < 5) finalConfig.bitmagnetTimeout = 30;
         if (isNaN(finalConfig.bitmagnetSearchLimit) || finalConfig.bitmagnetSearchLimit < 1 || finalConfig.bitmagnetSearchLimit > 100) finalConfig.bitmagnetSearchLimit = 30;
+        if (isNaN(finalConfig.bitmagnetMaxPages) || finalConfig.bitmagnetMaxPages < 1 || finalConfig.bitmagnetMaxPages > 10) finalConfig.bitmagnetMaxPages = 3;
+        if (isNaN(finalConfig.bitmagnetSearchBudget) || finalConfig.bitmagnetSearchBudget < 5) finalConfig.bitmagnetSearchBudget = 20;
+        if (isNaN(finalConfig.maxStreamsPerResolution) || finalConfig.maxStreamsPerResolution < 0 || finalConfig.maxStreamsPerResolution > 100) finalConfig.maxStreamsPerResolution = 5;
+        if (isNaN(finalConfig.titleMatchThreshold) || finalConfig.titleMatchThreshold < 0 || finalConfig.titleMatchThreshold > 100) finalConfig.titleMatchThreshold = 65;
+        if (isNaN(finalConfig.maxTotalStreams) || finalConfig.maxTotalStreams < 0 || finalConfig.maxTotalStreams > 500) finalConfig.maxTotalStreams = 20;
         return finalConfig;
     } catch (error) {
         console.error(`JWE decryption failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -68,4 +93,10 @@ export async function decryptConfig(jwe: string): Promise<Config | null> {
 
 export function isKeyInitialized(): boolean {
     return !!addonSecretKey;
-}
\ No newline at end of file
+}
+
+// Short, stable SHA-256 fingerprint (hex) for cache keys. Not reversible, so it is safe to use on API keys.
+export async function fingerprint(value: string, length = 16): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').substring(0, length);
+}
@@ -0,0 +1,91 @@
+import { premiumizeApi } from '../premiumize/premiumize.ts';
+import { PREMIUMIZE_API_URL } from '../premiumize/premiumize_config.ts';
+import { realDebridApi, REAL_DEBRID_API_URL } from '../realdebrid/realdebrid.ts';
+import { type Config } from '../../types.ts';
+
+export interface DebridAvailability {
+    isCached: boolean;
+    filename: string | null;
+}
+
+// Which file of the torrent to play. Without season/episode the largest video file is used.
+export interface ResolveLinkHints {
+    season?: number;
+    episode?: number;
+    absoluteEpisode?: number;
+    // Index of the file in the torrent, as Bitmagnet lists it. Used by providers that expose the torrent's file order.
+    fileIdx?: number;
+}
+
+export interface DebridTransferStatus {
+    // 'missing' when the transfer is no longer in the account, e.g. removed by the user.
+    state: 'downloading' | 'finished' | 'failed' | 'missing';
+    // 0..1, when the provider reports it.
+    progress: number | null;
+    message: string | null;
+}
+
+export interface DebridProvider {
+    id: 'premiumize' | 'realdebrid';
+    // Shown in stream details, e.g. "⚡ Premiumize".
+    label: string;
+    // Stremio stream name for links served through this provider.
+    streamName: string;
+    checkAvailability(infoHashes: string[]): Promise<Record<string, DebridAvailability>>;
+    resolveLink(magnetUrl: string, hints: ResolveLinkHints): Promise<string | null>;
+    // Cloud downloads of uncached torrents. Providers without them get no "Send to" streams.
+    createTransfer?(magnetUrl: string): Promise<string | null>;
+    // Null when the status could not be read; the transfer may still be running.
+    getTransferStatus?(transferId: string): Promise<DebridTransferStatus | null>;
+}
+
+const PREMIUMIZE_FINISHED_STATES = ['finished', 'seeding'];
+const PREMIUMIZE_FAILED_STATES = ['error', 'banned', 'timeout', 'deleted'];
+
+export function createPremiumizeProvider(apiKey: string, baseUrl = PREMIUMIZE_API_URL): DebridProvider {
+    return {
+        id: 'premiumize',
+        label: 'Premiumize',
+        streamName: '[PM] FW Bitmagnet',
+        checkAvailability: (infoHashes) => premiumizeApi.checkPremiumizeCacheBulk(apiKey, infoHashes, baseUrl),
+        resolveLink: (magnetUrl, hints) => premiumizeApi.getPremiumizeDirectDownloadLink(apiKey, magnetUrl, hints, baseUrl),
+        createTransfer: (magnetUrl) => premiumizeApi.createPremiumizeTransfer(apiKey, magnetUrl, baseUrl),
+        getTransferStatus: async (transferId) => {
+            const transfer = await premiumizeApi.getPremiumizeTransferStatus(apiKey, transferId, baseUrl);
+            if (!transfer) return null;
+            if (transfer === 'not_found') return { state: 'missing', progress: null, message: null };
+            const state = PREMIUMIZE_FINISHED_STATES.includes(transfer.status) ? 'finished'
+                : PREMIUMIZE_FAILED_STATES.includes(transfer.status) ? 'failed'
+                : 'downloading';
+            return { state, progress: transfer.progress, message: transfer.message };
+        },
+    };
+}
+
+export function createRealDebridProvider(apiKey: string, baseUrl = REAL_DEBRID_API_URL): DebridProvider {
+    return {
+        id: 'realdebrid',
+        label: 'Real-Debrid',
+        streamName: '[RD] FW Bitmagnet',
+        checkAvailability: (infoHashes) => realDebridApi.checkInstantAvailability(apiKey, infoHashes, baseUrl),
+        resolveLink: (magnetUrl, hints) => realDebridApi.getDirectDownloadLink(apiKey, magnetUrl, hints, baseUrl),
+    };
+}
+
+// API key of the provider the user selected, if configured.
+export function getDebridApiKey(config: Config): string | undefined {
+    return config.debridProvider === 'RealDebrid' ? config.realDebridApiKey : config.premiumizeApiKey;
+}
+
+// Returns the provider the user selected, or null when it has no API key configured.
+export function getDebridProvider(config: Config): DebridProvider | null {
+    const apiKey = getDebridApiKey(config);
+    if (!apiKey) return null;
+    switch (config.debridProvider) {
+        case 'RealDebrid':
+            return createRealDebridProvider(apiKey);
+        case 'Premiumize':
+        default:
+            return createPremiumizeProvider(apiKey);
+    }
+}
@@ -0,0 +1,241 @@
+import { assertEquals } from '@std/assert';
+import { closeKv } from '../kv_store.ts';
+import { createPremiumizeProvider, createRealDebridProvider } from './providers.ts';
+
+const API_KEY = 'test-key';
+const MAGNET = 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567';
+
+interface StubRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: Headers;
+    form: URLSearchParams;
+}
+
+/**
+ * Runs `test` against a local HTTP server that answers with `handler`, and returns the requests it received.
+ * The provider clients are pointed at the server through their base URL.
+ */
+async function withStubServer(
+    handler: (request: StubRequest) => Response,
+    test: (baseUrl: string) => Promise<void>
+): Promise<StubRequest[]> {
+    const requests: StubRequest[] = [];
+    const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (request) => {
+        const url = new URL(request.url);
+        const stubRequest: StubRequest = {
+            method: request.method,
+            path: url.pathname,
+            query: url.searchParams,
+            headers: request.headers,
+            form: new URLSearchParams(request.method === 'POST' ? await request.text() : ''),
+        };
+        requests.push(stubRequest);
+        return handler(stubRequest);
+    });
+    try {
+        await test(`http://127.0.0.1:${server.addr.port}`);
+    } finally {
+        await server.shutdown();
+    }
+    return requests;
+}
+
+function json(body: unknown): Response {
+    return Response.json(body);
+}
+
+// Availability is cached in KV per hash, so every run checks hashes no earlier run has seen.
+function randomInfoHash(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(20)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// An anime batch with absolute numbering: season 2 episode 1 is file "- 13".
+const ANIME_BATCH = [
+    { path: 'Show/[Group] Show - 01 [1080p].mkv', size: 900, stream_link: 'https://cdn.example/01' },
+    { path: 'Show/[Group] Show - 12 [1080p].mkv', size: 1200, stream_link: 'https://cdn.example/12' },
+    { path: 'Show/[Group] Show - 13 [1080p].mkv', size: 1000, stream_link: 'https://cdn.example/13' },
+    { path: 'Show/Extras/NCOP.mkv', size: 5000, stream_link: 'https://cdn.example/ncop' },
+];
+
+Deno.test('Premiumize: checkAvailability posts the hashes and maps the answer', async () => {
+    const [cached, uncached] = [randomInfoHash(), randomInfoHash()];
+    let availability = {};
+    const requests = await withStubServer(
+        () => json({ status: 'success', response: [true, false], filename: ['Movie.2020.1080p.mkv', null] }),
+        async (baseUrl) => {
+            availability = await createPremiumizeProvider(API_KEY, baseUrl).checkAvailability([cached, uncached]);
+        },
+    );
+    await closeKv();
+
+    assertEquals(availability, {
+        [cached]: { isCached: true, filename: 'Movie.2020.1080p.mkv' },
+        [uncached]: { isCached: false, filename: null },
+    });
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0].path, '/cache/check');
+    assertEquals(requests[0].query.get('apikey'), API_KEY);
+    assertEquals(requests[0].form.getAll('items[]'), [cached, uncached]);
+});
+
+Deno.test('Premiumize: resolveLink matches anime batches by absolute episode', async () => {
+    let link: string | null = null;
+    await withStubServer(
+        () => json({ status: 'success', content: ANIME_BATCH }),
+        async (baseUrl) => {
+            link = await createPremiumizeProvider(API_KEY, baseUrl).resolveLink(MAGNET, { season: 2, episode: 1, absoluteEpisode: 13 });
+        },
+    );
+    assertEquals(link, 'https://cdn.example/13');
+});
+
+Deno.test('Premiumize: resolveLink trusts the file index only where the file names no other episode', async () => {
+    const links: (string | null)[] = [];
+    await withStubServer(
+        () => json({ status: 'success', content: ANIME_BATCH }),
+        async (baseUrl) => {
+            const provider = createPremiumizeProvider(API_KEY, baseUrl);
+            // Index 1 is episode 12, so the episode match wins.
+            links.push(await provider.resolveLink(MAGNET, { season: 1, episode: 1, fileIdx: 1 }));
+            // Episode 20 is not in the batch and index 1 names episode 12, so the largest file is used.
+            links.push(await provider.resolveLink(MAGNET, { season: 1, episode: 20, fileIdx: 1 }));
+            links.push(await provider.resolveLink(MAGNET, { fileIdx: 1 }));
+            links.push(await provider.resolveLink(MAGNET, {}));
+        },
+    );
+    assertEquals(links, ['https://cdn.example/01', 'https://cdn.example/ncop', 'https://cdn.example/12', 'https://cdn.example/ncop']);
+});
+
+Deno.test('Premiumize: getTransferStatus tells a missing transfer from a failed lookup', async () => {
+    let listFails = false;
+    const results: unknown[] = [];
+    await withStubServer(
+        () => listFails
+            ? new Response('Service Unavailable', { status: 503 })
+            : json({ status: 'success', transfers: [{ id: 'T1', status: 'running', progress: 0.25, message: 'Downloading' }] }),
+        async (baseUrl) => {
+            const provider = createPremiumizeProvider(API_KEY, baseUrl);
+            results.push(await provider.getTransferStatus!('T1'));
+            results.push(await provider.getTransferStatus!('T2'));
+            listFails = true;
+            results.push(await provider.getTransferStatus!('T1'));
+        },
+    );
+    assertEquals(results, [
+        { state: 'downloading', progress: 0.25, message: 'Downloading' },
+        { state: 'missing', progress: null, message: null },
+        null,
+    ]);
+});
+
+function magnetFor(infoHash: string): string {
+    return `magnet:?xt=urn:btih:${infoHash}`;
+}
+
+const RD_BATCH_FILES = ANIME_BATCH.map((file, i) => ({ id: i + 1, path: `/${file.path}`, bytes: file.size }));
+
+/** Answers like Real-Debrid for an account whose torrent list is `existing`; added magnets become TORRENT1. */
+function realDebridStub(
+    files: { id: number; path: string; bytes: number }[],
+    existing: { id: string; hash: string; info: unknown }[] = []
+) {
+    let selected: string | null = null;
+    return (request: StubRequest): Response => {
+        if (request.path === '/torrents') return json(existing.map(({ id, hash }) => ({ id, hash, status: 'downloaded' })));
+        const existingTorrent = existing.find(torrent => request.path === `/torrents/info/${torrent.id}`);
+        if (existingTorrent) return json(existingTorrent.info);
+        if (request.path === '/torrents/addMagnet') return json({ id: 'TORRENT1' });
+        if (request.path === '/torrents/info/TORRENT1') {
+            return selected === null
+                ? json({ id: 'TORRENT1', status: 'waiting_files_selection', files: files.map(file => ({ ...file, selected: 0 })) })
+                : json({ id: 'TORRENT1', status: 'downloaded', links: [`https://real-debrid.example/d/${selected}`] });
+        }
+        if (request.path === '/torrents/selectFiles/TORRENT1') {
+            selected = request.form.get('files');
+            return new Response(null, { status: 204 });
+        }
+        if (request.path === '/torrents/delete/TORRENT1') return new Response(null, { status: 204 });
+        if (request.path === '/unrestrict/link') return json({ download: `${request.form.get('link')}/unrestricted` });
+        return new Response('Not Found', { status: 404 });
+    };
+}
+
+Deno.test('Real-Debrid: resolveLink selects the episode file and caches the unrestricted link', async () => {
+    const magnet = magnetFor(randomInfoHash());
+    const links: (string | null)[] = [];
+    const requests = await withStubServer(
+        realDebridStub(RD_BATCH_FILES),
+        async (baseUrl) => {
+            const provider = createRealDebridProvider(API_KEY, baseUrl);
+            links.push(await provider.resolveLink(magnet, { season: 2, episode: 1, absoluteEpisode: 13 }));
+            links.push(await provider.resolveLink(magnet, { season: 2, episode: 1, absoluteEpisode: 13 }));
+        },
+    );
+    await closeKv();
+
+    assertEquals(links, ['https://real-debrid.example/d/3/unrestricted', 'https://real-debrid.example/d/3/unrestricted']);
+    assertEquals(requests[0].headers.get('Authorization'), `Bearer ${API_KEY}`);
+    assertEquals(requests.find(request => request.path === '/torrents/addMagnet')?.form.get('magnet'), magnet);
+    assertEquals(requests.find(request => request.path === '/torrents/selectFiles/TORRENT1')?.form.get('files'), '3');
+    assertEquals(requests.filter(request => request.path === '/unrestrict/link').length, 1);
+    assertEquals(requests.some(request => request.method === 'DELETE'), false);
+});
+
+Deno.test('Real-Debrid: resolveLink reuses a torrent that has the file selected', async () => {
+    const infoHash = randomInfoHash();
+    let link: string | null = null;
+    const requests = await withStubServer(
+        realDebridStub(RD_BATCH_FILES, [{
+            id: 'EXISTING',
+            hash: infoHash.toUpperCase(),
+            info: {
+                id: 'EXISTING',
+                status: 'downloaded',
+                files: RD_BATCH_FILES.map(file => ({ ...file, selected: file.id === 2 || file.id === 3 ? 1 : 0 })),
+                links: ['https://real-debrid.example/d/12', 'https://real-debrid.example/d/13'],
+            },
+        }]),
+        async (baseUrl) => {
+            link = await createRealDebridProvider(API_KEY, baseUrl).resolveLink(magnetFor(infoHash), { season: 2, episode: 1, absoluteEpisode: 13 });
+        },
+    );
+    await closeKv();
+
+    assertEquals(link, 'https://real-debrid.example/d/13/unrestricted');
+    assertEquals(requests.some(request => request.path === '/torrents/addMagnet'), false);
+});
+
+Deno.test('Real-Debrid: resolveLink deletes the torrent it added when no file can be played', async () => {
+    let link: string | null = 'unset';
+    const requests = await withStubServer(
+        realDebridStub([{ id: 1, path: '/Show/readme.txt', bytes: 10 }]),
+        async (baseUrl) => {
+            link = await createRealDebridProvider(API_KEY, baseUrl).resolveLink(magnetFor(randomInfoHash()), {});
+        },
+    );
+    await closeKv();
+
+    assertEquals(link, null);
+    assertEquals(requests.at(-1)?.method, 'DELETE');
+    assertEquals(requests.at(-1)?.path, '/torrents/delete/TORRENT1');
+});
+
+Deno.test('Real-Debrid: checkAvailability reads the largest cached file', async () => {
+    const [cached, uncached] = [randomInfoHash(), randomInfoHash()];
+    let availability = {};
+    await withStubServer(
+        () => json({
+            [cached]: { rd: [{ '1': { filename: 'sample.mkv', filesize: 10 }, '2': { filename: 'Movie.2020.1080p.mkv', filesize: 2000 } }] },
+            [uncached]: [],
+        }),
+        async (baseUrl) => {
+            availability = await createRealDebridProvider(API_KEY, baseUrl).checkAvailability([cached, uncached]);
+        },
+    );
+    assertEquals(availability, {
+        [cached]: { isCached: true, filename: 'Movie.2020.1080p.mkv' },
+        [uncached]: { isCached: false, filename: null },
+    });
+});
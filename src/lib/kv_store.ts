@@ -15,6 +15,31 @@ try {
   }
 }
 
+export interface CacheNamespace {
+  // Start of the first key part of every entry in the namespace, e.g. "stream_" in ["stream_tt0111161", ...].
+  prefix: string;
+  description: string;
+  // Clears in-memory copies after the namespace's KV entries were purged.
+  onPurge?: () => void;
+}
+
+const cacheNamespaces: CacheNamespace[] = [];
+
+/**
+ * Registers a cache namespace for the admin page and returns its prefix, so modules can write
+ * `const CACHE_PREFIX_META = registerCacheNamespace("meta_", "...")`.
+ */
+export function registerCacheNamespace(prefix: string, description: string, onPurge?: () => void): string {
+  if (!cacheNamespaces.some(namespace => namespace.prefix === prefix)) {
+    cacheNamespaces.push({ prefix, description, onPurge });
+  }
+  return prefix;
+}
+
+export function getCacheNamespaces(): readonly CacheNamespace[] {
+  return cacheNamespaces;
+}
+
 /**
  * Opens and returns the Deno KV store instance.
  * Caches the instance and the promise for subsequent calls.
@@ -54,4 +79,51 @@ export async function closeKv(): Promise<void> {
       console.error("Error closing KV store:", error);
     }
   }
-}
\ No newline at end of file
+}
+
+// Deno KV rejects values over 64 KiB. Larger values are stored as JSON split into parts under the key,
+// with a small header entry at the key itself that says how many parts to read.
+const KV_PART_CHARS = 16 * 1024; // Up to 4 bytes per char in UTF-8, so a part stays below the limit.
+// Deno KV's getMany() reads at most 10 keys per call.
+export const KV_GET_MANY_LIMIT = 10;
+
+interface ChunkedHeader {
+  parts: number;
+  storedAt: number;
+}
+
+/**
+ * Stores a value of any size under `key`. The header is written last,
+ * so readers never see a header without its parts.
+ */
+export async function setChunked(kv: Deno.Kv, key: Deno.KvKey, value: unknown, options?: { expireIn?: number }): Promise<void> {
+  const json = JSON.stringify(value);
+  const parts: string[] = [];
+  for (let i = 0; i < json.length; i += KV_PART_CHARS) {
+    parts.push(json.substring(i, i + KV_PART_CHARS));
+  }
+  for (let i = 0; i < parts.length; i++) {
+    await kv.set([...key, 'part', i], parts[i], options);
+  }
+  await kv.set(key, { parts: parts.length, storedAt: Date.now() } satisfies ChunkedHeader, options);
+}
+
+/**
+ * Reads a value written by `setChunked`. Returns null when the header or any part is missing,
+ * or when the key holds a value written with a plain `kv.set`.
+ */
+export async function getChunked<T>(kv: Deno.Kv, key: Deno.KvKey): Promise<T | null> {
+  const header = await kv.get<ChunkedHeader>(key);
+  if (header.value === null || typeof header.value.parts !== 'number') return null;
+
+  const parts: string[] = [];
+  for (let i = 0; i < header.value.parts; i += KV_GET_MANY_LIMIT) {
+    const keys = Array.from({ length: Math.min(KV_GET_MANY_LIMIT, header.value.parts - i) }, (_, j) => [...key, 'part', i + j]);
+    const entries = await kv.getMany<string[]>(keys);
+    for (const entry of entries) {
+      if (entry.value === null) return null;
+      parts.push(entry.value);
+    }
+  }
+  return JSON.parse(parts.join('')) as T;
+}
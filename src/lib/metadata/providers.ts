@@ -0,0 +1,74 @@
+import { tmdbApi } from '../tmdb/api.ts';
+import { bitmagnetFunctions } from '../bitmagnet/functions.ts';
+import { type Config } from '../../types.ts';
+
+export interface MediaDetails {
+    title: string;
+    originalTitle?: string;
+    alternativeTitles?: string[];
+    year?: number;
+    provider: string;
+}
+
+export interface MetadataProvider {
+    name: string;
+    // Whether the provider can be asked at all with this configuration (e.g. an API key is present).
+    isAvailable(config: Config): boolean;
+    getDetails(imdbId: string, type: 'movie' | 'series', config: Config): Promise<MediaDetails | null>;
+}
+
+const tmdbProvider: MetadataProvider = {
+    name: 'TMDB',
+    isAvailable: (config) => !!config.tmdbApiKey,
+    getDetails: async (imdbId, type, config) => {
+        // Translations in the user's languages are tried first, since local releases are named after them.
+        const languages = [...new Set([...config.requiredLanguages, ...config.preferredLanguages])];
+        const details = await tmdbApi.getTmdbDetails(imdbId, config.tmdbApiKey!, type, languages);
+        return details ? { ...details, provider: 'TMDB' } : null;
+    },
+};
+
+// Uses the Content records Bitmagnet already classified, so no external account is needed.
+const bitmagnetProvider: MetadataProvider = {
+    name: 'Bitmagnet',
+    isAvailable: (config) => !!config.bitmagnetUrl,
+    getDetails: async (imdbId, type, config) => {
+        const content = await bitmagnetFunctions.findContentByImdbId(imdbId, type, config);
+        if (!content) return null;
+        return {
+            title: content.title,
+            originalTitle: content.originalTitle || undefined,
+            year: content.releaseYear ?? undefined,
+            provider: 'Bitmagnet',
+        };
+    },
+};
+
+// Providers are asked in order; the first one that answers wins.
+const providers: MetadataProvider[] = [tmdbProvider, bitmagnetProvider];
+
+// Keep original function name internal
+async function _resolveDetails(imdbId: string, type: 'movie' | 'series', config: Config): Promise<MediaDetails | null> {
+    for (const provider of providers) {
+        if (!provider.isAvailable(config)) {
+            console.log(`[Metadata] Skipping ${provider.name} provider: not configured.`);
+            continue;
+        }
+        try {
+            const details = await provider.getDetails(imdbId, type, config);
+            if (details) {
+                console.log(`[Metadata] Resolved ${imdbId} via ${provider.name}: Title=${details.title}, Year=${details.year}`);
+                return details;
+            }
+            console.log(`[Metadata] ${provider.name} had no details for ${imdbId}.`);
+        } catch (error) {
+            console.error(`[Metadata] ${provider.name} lookup failed for ${imdbId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return null;
+}
+
+// Export functions within an object
+export const metadataApi = {
+    resolveDetails: _resolveDetails,
+};
@@ -0,0 +1,110 @@
+// A small Prometheus registry: counters and histograms with labels, rendered in the text exposition format.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render(): string[];
+}
+
+export interface Counter {
+    inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+    // Observes the seconds from now until the returned function is called.
+    startTimer(labels?: Labels): (extraLabels?: Labels) => void;
+}
+
+const registry: Metric[] = [];
+
+// Seconds; spans a KV hit (a few ms) to a Bitmagnet search that runs into its budget.
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const COUNT_BUCKETS = [0, 1, 5, 10, 20, 50, 100, 250];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Series are keyed by their label set; sorting the names keeps {a,b} and {b,a} one series.
+function seriesKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+export function createCounter(name: string, help: string): Counter {
+    const series = new Map<string, { labels: Labels; value: number }>();
+    registry.push({
+        render: () => [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} counter`,
+            ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+        ],
+    });
+    return {
+        inc(labels = {}, value = 1) {
+            const key = seriesKey(labels);
+            const current = series.get(key);
+            if (current) current.value += value;
+            else series.set(key, { labels, value });
+        },
+    };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+    const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+    registry.push({
+        render: () => [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} histogram`,
+            ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+                ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+                `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+                `${name}_sum${formatLabels(labels)} ${sum}`,
+                `${name}_count${formatLabels(labels)} ${count}`,
+            ]),
+        ],
+    });
+    const histogram: Histogram = {
+        observe(labels, value) {
+            const key = seriesKey(labels);
+            let current = series.get(key);
+            if (!current) {
+                current = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+                series.set(key, current);
+            }
+            buckets.forEach((bound, i) => { if (value <= bound) current!.counts[i]++; });
+            current.sum += value;
+            current.count++;
+        },
+        startTimer(labels = {}) {
+            const start = performance.now();
+            return (extraLabels = {}) => histogram.observe({ ...labels, ...extraLabels }, (performance.now() - start) / 1000);
+        },
+    };
+    return histogram;
+}
+
+function _render(): string {
+    return registry.flatMap(metric => metric.render()).join('\n') + '\n';
+}
+
+// --- Metrics of the stream pipeline ---
+
+export const metrics = {
+    httpRequests: createCounter('http_requests_total', 'HTTP requests by route, method and status.'),
+    httpRequestDuration: createHistogram('http_request_duration_seconds', 'HTTP request latency by route and method.'),
+    streamCacheLookups: createCounter('stream_cache_lookups_total', 'Stream cache lookups by layer (stream, search) and result (hit, stale, miss).'),
+    bitmagnetRequestDuration: createHistogram('bitmagnet_request_duration_seconds', 'Bitmagnet GraphQL latency by operation.'),
+    bitmagnetErrors: createCounter('bitmagnet_errors_total', 'Failed Bitmagnet GraphQL requests by operation and kind (timeout, http, graphql, network).'),
+    tmdbRequests: createCounter('tmdb_requests_total', 'TMDB API calls by endpoint and result (success, failure).'),
+    premiumizeRequests: createCounter('premiumize_requests_total', 'Premiumize API calls by endpoint and result (success, failure).'),
+    premiumizeAvailability: createCounter('premiumize_availability_total', 'Checked info hashes by result (cached, uncached); the cached share is the cache hit rate.'),
+    streamsReturned: createHistogram('streams_returned', 'Streams returned per stream request.', COUNT_BUCKETS),
+    render: _render,
+};
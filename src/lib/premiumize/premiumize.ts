@@ -6,12 +6,15 @@ export interface PremiumizeStreamResult {
 // Import the functions to be wrapped
 import { checkPremiumizeCacheBulk as _checkPremiumizeCacheBulk, type PremiumizeCacheStatus } from './premiumize_cachestatus.ts';
 import { getPremiumizeDirectDownloadLink as _getPremiumizeDirectDownloadLink } from './premiumize_directdl.ts';
+import { createPremiumizeTransfer as _createPremiumizeTransfer, getPremiumizeTransferStatus as _getPremiumizeTransferStatus, type PremiumizeTransferStatus } from './premiumize_transfer.ts';
 
 // Export functions within an object
 export const premiumizeApi = {
     checkPremiumizeCacheBulk: _checkPremiumizeCacheBulk,
     getPremiumizeDirectDownloadLink: _getPremiumizeDirectDownloadLink,
+    createPremiumizeTransfer: _createPremiumizeTransfer,
+    getPremiumizeTransferStatus: _getPremiumizeTransferStatus,
 };
 
 // Re-export types
-export type { PremiumizeCacheStatus };
\ No newline at end of file
+export type { PremiumizeCacheStatus, PremiumizeTransferStatus };
\ No newline at end of file
@@ -1,59 +1,123 @@
+import { PREMIUMIZE_API_URL } from './premiumize_config.ts';
+import { getKv, KV_GET_MANY_LIMIT, registerCacheNamespace } from '../kv_store.ts';
+import { metrics } from '../metrics.ts';
+
 /**
- * Checks Premiumize cache status for multiple info hashes in a single API call.
+ * Checks Premiumize cache status for multiple info hashes.
  * Returns a map where keys are info hashes and values indicate cache status and filename.
  */
 export interface PremiumizeCacheStatus {
     isCached: boolean;
     filename: string | null;
 }
+
+// Premiumize's cache is shared by all accounts, so results are cached per hash, not per API key.
+const CACHE_PREFIX_AVAILABILITY = registerCacheNamespace("premiumize_cache_", "Premiumize availability per info hash");
+// Misses expire sooner, so torrents that just finished a transfer show up as cached quickly.
+const CACHE_TTL_CACHED_SECONDS = 30 * 60;
+const CACHE_TTL_UNCACHED_SECONDS = 5 * 60;
+// Hashes per /cache/check request. The hashes go in a POST body, so this is not bound by URL length.
+const CHECK_CHUNK_SIZE = 100;
+
+async function readCachedStatuses(kv: Deno.Kv, infoHashes: string[]): Promise<Record<string, PremiumizeCacheStatus>> {
+    const cached: Record<string, PremiumizeCacheStatus> = {};
+    for (let i = 0; i < infoHashes.length; i += KV_GET_MANY_LIMIT) {
+        const keys = infoHashes.slice(i, i + KV_GET_MANY_LIMIT).map(hash => [CACHE_PREFIX_AVAILABILITY, hash]);
+        const entries = await kv.getMany<PremiumizeCacheStatus[]>(keys);
+        for (const entry of entries) {
+            if (entry.value !== null) {
+                cached[entry.key[1] as string] = entry.value;
+            }
+        }
+    }
+    return cached;
+}
+
+// Checks one chunk of hashes. Returns null if the request failed, so nothing is cached for them.
+async function checkChunk(apiKey: string, infoHashes: string[], baseUrl: string): Promise<Record<string, PremiumizeCacheStatus> | null> {
+    const bodyParams = new URLSearchParams();
+    infoHashes.forEach(hash => bodyParams.append('items[]', hash));
+
+    const response = await fetch(`${baseUrl}/cache/check?apikey=${apiKey}`, {
+        method: 'post',
+        headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: bodyParams.toString(),
+    });
+    if (!response.ok) {
+        console.error(`[Premiumize] Bulk API request failed with status ${response.status}: ${await response.text()}`);
+        return null;
+    }
+
+    const data = await response.json();
+    if (data.status !== 'success' || !Array.isArray(data.response) || data.response.length !== infoHashes.length) {
+        console.error(`[Premiumize] Bulk cache check failed or returned unexpected data structure:`, data);
+        return null;
+    }
+
+    const results: Record<string, PremiumizeCacheStatus> = {};
+    for (let i = 0; i < infoHashes.length; i++) {
+        const hash = infoHashes[i];
+        const isCached = data.response[i] === true;
+        const filename = (Array.isArray(data.filename) && data.filename.length > i && data.filename[i]) ? data.filename[i] : null;
+        results[hash] = { isCached: isCached, filename: filename };
+    }
+    return results;
+}
+
 export async function checkPremiumizeCacheBulk( // Export directly
     apiKey: string,
-    infoHashes: string[]
+    infoHashes: string[],
+    baseUrl = PREMIUMIZE_API_URL
 ): Promise<Record<string, PremiumizeCacheStatus>> {
     if (infoHashes.length === 0) {
         return {};
     }
 
-    console.log(`[Premiumize] Bulk checking cache for ${infoHashes.length} info_hashes.`);
-    const itemsQuery = infoHashes.map(hash => `items[]=${hash}`).join('&');
-    const apiUrl = `https://premiumize.me/api/cache/check?apikey=${apiKey}&${itemsQuery}`;
-   
-
+    const uniqueHashes = [...new Set(infoHashes)];
     const results: Record<string, PremiumizeCacheStatus> = {};
-    infoHashes.forEach(hash => results[hash] = { isCached: false, filename: null });
+    uniqueHashes.forEach(hash => results[hash] = { isCached: false, filename: null });
 
+    let kv: Deno.Kv | null = null;
+    let toCheck = uniqueHashes;
     try {
-        const response = await fetch(apiUrl);
-        if (!response.ok) {
-            console.error(`[Premiumize] Bulk API request failed with status ${response.status}: ${await response.text()}`);
-            return results;
-        }
-
-        const rawResponseText = await response.text();
-        const data = JSON.parse(rawResponseText);
-
-        if (data.status !== 'success' || !Array.isArray(data.response) || data.response.length !== infoHashes.length) {
-            console.error(`[Premiumize] Bulk cache check failed or returned unexpected data structure:`, data);
-            return results;
-        }
+        kv = await getKv();
+        const cached = await readCachedStatuses(kv, uniqueHashes);
+        Object.assign(results, cached);
+        toCheck = uniqueHashes.filter(hash => !cached[hash]);
+    } catch (error) {
+        console.error(`[Premiumize] Error reading cached availability:`, error instanceof Error ? error.message : error);
+    }
 
-        for (let i = 0; i < infoHashes.length; i++) {
-            const hash = infoHashes[i];
-            const isCached = data.response[i] === true;
-            const filename = (Array.isArray(data.filename) && data.filename.length > i && data.filename[i]) ? data.filename[i] : null;
+    console.log(`[Premiumize] Bulk checking cache for ${toCheck.length} info_hashes (${uniqueHashes.length - toCheck.length} known from KV).`);
 
-            results[hash] = { isCached: isCached, filename: filename };
+    for (let i = 0; i < toCheck.length; i += CHECK_CHUNK_SIZE) {
+        const chunk = toCheck.slice(i, i + CHECK_CHUNK_SIZE);
+        try {
+            const chunkResults = await checkChunk(apiKey, chunk, baseUrl);
+            metrics.premiumizeRequests.inc({ endpoint: 'cache/check', result: chunkResults ? 'success' : 'failure' });
+            if (!chunkResults) continue;
+            Object.assign(results, chunkResults);
 
-            if (isCached) {
-                console.log(`[Premiumize] Bulk Cache hit for ${hash}. Filename: ${filename}`);
-            } else {
-                 console.log(`[Premiumize] Bulk Cache miss for ${hash}.`);
+            if (kv) {
+                const operation = kv.atomic();
+                for (const [hash, status] of Object.entries(chunkResults)) {
+                    const ttlSeconds = status.isCached ? CACHE_TTL_CACHED_SECONDS : CACHE_TTL_UNCACHED_SECONDS;
+                    operation.set([CACHE_PREFIX_AVAILABILITY, hash], status, { expireIn: ttlSeconds * 1000 });
+                }
+                await operation.commit();
             }
+        } catch (error) {
+            metrics.premiumizeRequests.inc({ endpoint: 'cache/check', result: 'failure' });
+            console.error(`[Premiumize] Error during bulk cache check API call:`, error instanceof Error ? error.message : error);
         }
-
-    } catch (error) {
-        console.error(`[Premiumize] Error during bulk cache check API call:`, error instanceof Error ? error.message : error);
     }
 
+    const hits = uniqueHashes.filter(hash => results[hash].isCached).length;
+    metrics.premiumizeAvailability.inc({ result: 'cached' }, hits);
+    metrics.premiumizeAvailability.inc({ result: 'uncached' }, uniqueHashes.length - hits);
+    console.log(`[Premiumize] ${hits} of ${uniqueHashes.length} info_hashes are cached.`);
     return results;
-}
\ No newline at end of file
+}
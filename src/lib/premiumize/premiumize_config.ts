@@ -0,0 +1,2 @@
+// PREMIUMIZE_API_URL points the client at another server, e.g. a local stub for testing.
+export const PREMIUMIZE_API_URL = Deno.env.get("PREMIUMIZE_API_URL") || 'https://www.premiumize.me/api';
@@ -1,19 +1,32 @@
+import { releaseNameParser } from '../release_name.ts';
+import { PREMIUMIZE_API_URL } from './premiumize_config.ts';
+import { metrics } from '../metrics.ts';
+
+interface PremiumizeContentItem {
+    path?: string;
+    size?: number;
+    stream_link?: string | null;
+}
+
 /**
  * Calls the /transfer/directdl endpoint using axios to get a stream link for a magnet URL.
  * Assumes the item is already cached (should be checked beforehand).
+ * Episodes are picked by season/episode or absolute episode, then by torrent index if that file does not
+ * name another episode. Other requests use the torrent index. The largest file is the fallback.
  * Returns the stream URL or null if an error occurs or the link is not found.
  */
 export async function getPremiumizeDirectDownloadLink( // Export directly
     apiKey: string | undefined,
     magnetUrl: string,
-    searchQuery?: string
+    hints: { season?: number; episode?: number; absoluteEpisode?: number; fileIdx?: number } = {},
+    baseUrl = PREMIUMIZE_API_URL
 ): Promise<string | null> {
     if (!apiKey) {
         console.error("[Premiumize] Error: Missing API key.");
         return null;
     }
 
-    const apiUrl = `https://www.premiumize.me/api/transfer/directdl?apikey=${apiKey}`;
+    const apiUrl = `${baseUrl}/transfer/directdl?apikey=${apiKey}`;
 
     try {
         const bodyParams = new URLSearchParams();
@@ -29,33 +42,41 @@ export async function getPremiumizeDirectDownloadLink( // Export directly
         });
 
         const data = await response.json();
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/directdl', result: data.status === 'success' ? 'success' : 'failure' });
 
         if (data.status === 'success' && Array.isArray(data.content) && data.content.length > 0) {
-            let bestMatch: { path: string, stream_link: string, size: number } | null = null;
-
-            if (searchQuery) {
-                const seasonEpisodeMatch = searchQuery.match(/S(\d{1,2})E(\d{1,2})/i);
-                if (seasonEpisodeMatch) {
-                    const seasonNum = parseInt(seasonEpisodeMatch[1], 10);
-                    const episodeNum = parseInt(seasonEpisodeMatch[2], 10);
+            const content: PremiumizeContentItem[] = data.content;
+            const { season, episode, absoluteEpisode, fileIdx } = hints;
+            let bestMatch: PremiumizeContentItem | null = null;
 
-                    const episodePattern = new RegExp(`S(0?${seasonNum})E(0?${episodeNum})`, 'i');
-                    const episodePatternAlt = new RegExp(`${seasonNum}x(0?${episodeNum})`, 'i'); // Common alternative like 1x02
+            const isEpisodeRequest = season !== undefined && episode !== undefined;
 
-                    for (const item of data.content) {
-                        if (item.stream_link && item.path && (episodePattern.test(item.path) || episodePatternAlt.test(item.path))) {
-                            console.log(`[Premiumize] Found specific episode match: ${item.path}`);
-                            bestMatch = item;
-                            break;
-                        }
+            if (isEpisodeRequest) {
+                for (const item of content) {
+                    if (item.stream_link && item.path && releaseNameParser.matchesEpisode(releaseNameParser.parse(item.path), season, episode, absoluteEpisode)) {
+                        console.log(`[Premiumize] Found specific episode match: ${item.path}`);
+                        bestMatch = item;
+                        break;
                     }
                 }
             }
 
+            // Bitmagnet's file index assumes directdl keeps the torrent's file order, which Premiumize does not
+            // promise. For episodes it is only used for files whose names do not point to another episode.
+            const indexedItem = !bestMatch && fileIdx !== undefined ? content[fileIdx] : undefined;
+            if (indexedItem?.stream_link && indexedItem.path && releaseNameParser.isVideoFile(indexedItem.path)) {
+                const parsed = releaseNameParser.parse(indexedItem.path);
+                const namesOtherEpisode = isEpisodeRequest && (parsed.episodes.length > 0 || parsed.absoluteEpisodes.length > 0);
+                if (!namesOtherEpisode) {
+                    console.log(`[Premiumize] Using file at index ${fileIdx}: ${indexedItem.path}`);
+                    bestMatch = indexedItem;
+                }
+            }
+
             if (!bestMatch) {
-                const sortedContent = data.content
-                    .filter((item: { stream_link?: string | null }) => !!item.stream_link) // Only consider items with stream links
-                    .sort((a: { size?: number }, b: { size?: number }) => (b.size || 0) - (a.size || 0)); // Sort by size desc
+                const sortedContent = content
+                    .filter(item => !!item.stream_link) // Only consider items with stream links
+                    .sort((a, b) => (b.size || 0) - (a.size || 0)); // Sort by size desc
 
                 if (sortedContent.length > 0) {
                     bestMatch = sortedContent[0];
@@ -76,6 +97,7 @@ export async function getPremiumizeDirectDownloadLink( // Export directly
         }
 
     } catch (error) {
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/directdl', result: 'failure' });
         console.error(`[Premiumize] Error during fetch DirectDL API call:`, error);
         return null;
     }
@@ -0,0 +1,88 @@
+import { PREMIUMIZE_API_URL } from './premiumize_config.ts';
+import { metrics } from '../metrics.ts';
+
+export interface PremiumizeTransferStatus {
+    // Premiumize reports waiting, queued, running, seeding, finished, error, banned, timeout and deleted.
+    status: string;
+    // 0..1, when Premiumize reports it.
+    progress: number | null;
+    message: string | null;
+}
+
+/**
+ * Starts a Premiumize transfer (cloud download) for a magnet URL.
+ * Returns the transfer id, or null if Premiumize refused it.
+ */
+export async function createPremiumizeTransfer( // Export directly
+    apiKey: string,
+    magnetUrl: string,
+    baseUrl = PREMIUMIZE_API_URL
+): Promise<string | null> {
+    const apiUrl = `${baseUrl}/transfer/create?apikey=${apiKey}`;
+
+    try {
+        const bodyParams = new URLSearchParams();
+        bodyParams.append('src', magnetUrl);
+
+        const response = await fetch(apiUrl, {
+            method: 'post',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: bodyParams.toString(),
+        });
+
+        const data = await response.json();
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/create', result: data.status === 'success' ? 'success' : 'failure' });
+        if (data.status === 'success' && data.id) {
+            console.log(`[Premiumize] Created transfer ${data.id} (${data.name ?? 'unnamed'}).`);
+            return String(data.id);
+        }
+        console.log(`[Premiumize] Transfer creation refused. Status: ${data.status}, Message: ${data.message}`);
+        return null;
+    } catch (error) {
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/create', result: 'failure' });
+        console.error(`[Premiumize] Error during transfer create API call:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Looks up a transfer in the account's transfer list.
+ * Returns 'not_found' if the transfer is gone (e.g. deleted by the user), or null if the list could not be read.
+ */
+export async function getPremiumizeTransferStatus( // Export directly
+    apiKey: string,
+    transferId: string,
+    baseUrl = PREMIUMIZE_API_URL
+): Promise<PremiumizeTransferStatus | 'not_found' | null> {
+    const apiUrl = `${baseUrl}/transfer/list?apikey=${apiKey}`;
+
+    try {
+        const response = await fetch(apiUrl, { headers: { 'Accept': 'application/json' } });
+        const data = response.ok ? await response.json() : null;
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/list', result: data?.status === 'success' ? 'success' : 'failure' });
+        if (!response.ok) {
+            console.error(`[Premiumize] Transfer list request failed with status ${response.status}: ${await response.text()}`);
+            return null;
+        }
+
+        if (data.status !== 'success' || !Array.isArray(data.transfers)) {
+            console.error(`[Premiumize] Transfer list returned unexpected data structure:`, data);
+            return null;
+        }
+
+        const transfer = data.transfers.find((item: { id?: string }) => item.id === transferId);
+        if (!transfer) return 'not_found';
+        return {
+            status: String(transfer.status),
+            progress: typeof transfer.progress === 'number' ? transfer.progress : null,
+            message: transfer.message || null,
+        };
+    } catch (error) {
+        metrics.premiumizeRequests.inc({ endpoint: 'transfer/list', result: 'failure' });
+        console.error(`[Premiumize] Error during transfer list API call:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
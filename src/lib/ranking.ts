@@ -0,0 +1,190 @@
+import { type TorrentInfo } from './bitmagnet/functions.ts';
+import { type Config } from '../types.ts';
+
+export interface RankingWeights {
+    resolution: number;
+    codec: number;
+    source: number;
+    size: number;
+    seeders: number;
+    language: number;
+    cached: number;
+}
+
+export type RankingFactor = keyof RankingWeights;
+
+export type RankingPreset = Config['rankingPreset'];
+export const RANKING_PRESETS: readonly RankingPreset[] = ['Balanced', 'QualityFirst', 'SmallFiles', 'FastStart'];
+
+export interface RankingCandidate {
+    torrent: TorrentInfo;
+    // Whether the release is instantly playable through a debrid service.
+    cached: boolean;
+}
+
+export interface ScoreBreakdown {
+    total: number;
+    factors: Record<RankingFactor, { value: number; weight: number; contribution: number }>;
+}
+
+// Falls back to 'Balanced' for missing or unknown values.
+export function parseRankingPreset(raw: unknown): RankingPreset {
+    return RANKING_PRESETS.find(preset => preset === raw) ?? 'Balanced';
+}
+
+const RANKING_FACTORS: RankingFactor[] = ['resolution', 'codec', 'source', 'size', 'seeders', 'language', 'cached'];
+
+// A negative size weight prefers smaller files.
+const PRESET_WEIGHTS: Record<RankingPreset, RankingWeights> = {
+    Balanced: { resolution: 3, codec: 1, source: 2, size: 0, seeders: 2, language: 2, cached: 4 },
+    QualityFirst: { resolution: 5, codec: 1, source: 3, size: 2, seeders: 1, language: 2, cached: 3 },
+    SmallFiles: { resolution: 1, codec: 3, source: 1, size: -4, seeders: 1, language: 2, cached: 3 },
+    FastStart: { resolution: 1, codec: 0, source: 1, size: -1, seeders: 5, language: 1, cached: 8 },
+};
+
+// Factor values are normalized to 0..1; unknown values sit in the middle so they are neither rewarded nor punished much.
+const RESOLUTION_VALUES: Record<string, number> = {
+    '4320p': 1, '2160p': 1, '1440p': 0.85, '1080p': 0.75, '720p': 0.5, '576p': 0.3, '540p': 0.3, '480p': 0.25, '360p': 0.1,
+};
+const CODEC_VALUES: Record<string, number> = {
+    x265: 1, x264: 0.7, H264: 0.7, MPEG4: 0.3, XviD: 0.2, DivX: 0.2, MPEG2: 0.1,
+};
+const SOURCE_VALUES: Record<string, number> = {
+    BluRay: 1, WEBDL: 0.9, WEBRip: 0.8, TV: 0.6, DVD: 0.5, TELECINE: 0.2, WORKPRINT: 0.1, TELESYNC: 0.1, CAM: 0,
+};
+const UNKNOWN_VALUE = 0.4;
+const SEEDERS_SATURATION = 1000;
+
+/**
+ * Parses "resolution=4,seeders=2" style overrides. Unknown factors and non-numeric weights are dropped.
+ */
+function _parseWeights(raw: string | undefined): Partial<RankingWeights> {
+    const weights: Partial<RankingWeights> = {};
+    for (const pair of (raw || '').split(',')) {
+        const [name, value] = pair.split('=').map(part => part?.trim());
+        const factor = RANKING_FACTORS.find(f => f.toLowerCase() === name?.toLowerCase());
+        const weight = parseFloat(value ?? '');
+        if (factor && !isNaN(weight)) {
+            weights[factor] = weight;
+        }
+    }
+    return weights;
+}
+
+// Normalizes user input back into the "factor=weight" form stored in the config.
+function _formatWeights(weights: Partial<RankingWeights>): string {
+    return RANKING_FACTORS.filter(factor => weights[factor] !== undefined).map(factor => `${factor}=${weights[factor]}`).join(',');
+}
+
+// The preset's weights with the user's overrides applied on top.
+function _resolveWeights(config: Config): RankingWeights {
+    const preset = PRESET_WEIGHTS[config.rankingPreset];
+    return { ...preset, ..._parseWeights(config.rankingWeights) };
+}
+
+function factorValues(candidate: RankingCandidate, sizeRange: { min: number; max: number }, config: Config): Record<RankingFactor, number> {
+    const { torrent } = candidate;
+
+    // Size is log-scaled relative to the other results, so it means "larger than the alternatives" rather than an absolute size.
+    let size = UNKNOWN_VALUE;
+    if (torrent.size && sizeRange.max > sizeRange.min) {
+        size = (Math.log(torrent.size) - Math.log(sizeRange.min)) / (Math.log(sizeRange.max) - Math.log(sizeRange.min));
+    }
+
+    const preferredLanguages = config.preferredLanguages;
+    let language = UNKNOWN_VALUE;
+    if (preferredLanguages.length > 0 && torrent.languages.length > 0) {
+        const torrentLanguages = torrent.languages.map(lang => lang.toLowerCase());
+        language = preferredLanguages.some(lang => torrentLanguages.includes(lang.toLowerCase()) || torrentLanguages.includes(languageName(lang))) ? 1 : 0;
+    }
+
+    return {
+        resolution: RESOLUTION_VALUES[torrent.resolution] ?? UNKNOWN_VALUE,
+        codec: torrent.videoCodec ? CODEC_VALUES[torrent.videoCodec] ?? UNKNOWN_VALUE : UNKNOWN_VALUE,
+        source: torrent.videoSource ? SOURCE_VALUES[torrent.videoSource] ?? UNKNOWN_VALUE : UNKNOWN_VALUE,
+        size,
+        seeders: Math.min(1, Math.log10(torrent.seeders + 1) / Math.log10(SEEDERS_SATURATION + 1)),
+        language,
+        cached: candidate.cached ? 1 : 0,
+    };
+}
+
+// Bitmagnet reports language names ("English"), while the config stores codes ("en").
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+function languageName(code: string): string {
+    try {
+        return (languageNames.of(code) ?? code).toLowerCase();
+    } catch {
+        return code.toLowerCase();
+    }
+}
+
+// Scores every candidate against the same weights. The result array lines up with the input.
+function _scoreCandidates(candidates: RankingCandidate[], config: Config): ScoreBreakdown[] {
+    const weights = _resolveWeights(config);
+    const sizes = candidates.map(c => c.torrent.size).filter((size): size is number => !!size && size > 0);
+    const sizeRange = { min: Math.min(...sizes), max: Math.max(...sizes) };
+
+    return candidates.map((candidate) => {
+        const values = factorValues(candidate, sizeRange, config);
+        const factors = {} as ScoreBreakdown['factors'];
+        let total = 0;
+        for (const factor of RANKING_FACTORS) {
+            const contribution = values[factor] * weights[factor];
+            factors[factor] = { value: values[factor], weight: weights[factor], contribution };
+            total += contribution;
+        }
+        return { total, factors };
+    });
+}
+
+// One-line explanation for debug output, e.g. "score 6.10 = resolution 0.75×3 + seeders 0.61×2 + ...".
+function _explainScore(breakdown: ScoreBreakdown): string {
+    const parts = RANKING_FACTORS
+        .filter(factor => breakdown.factors[factor].weight !== 0)
+        .map(factor => {
+            const { value, weight } = breakdown.factors[factor];
+            return `${factor} ${value.toFixed(2)}×${weight}`;
+        });
+    return `score ${breakdown.total.toFixed(2)} = ${parts.join(' + ')}`;
+}
+
+// Stream list groups, best first. Anything not listed (including unknown resolutions) ends up in 'SD'.
+const RESOLUTION_GROUPS: { name: string; resolutions: string[] }[] = [
+    { name: '2160p', resolutions: ['4320p', '2160p'] },
+    { name: '1440p', resolutions: ['1440p'] },
+    { name: '1080p', resolutions: ['1080p'] },
+    { name: '720p', resolutions: ['720p'] },
+    { name: 'SD', resolutions: [] },
+];
+
+function resolutionGroupIndex(resolution: string): number {
+    const index = RESOLUTION_GROUPS.findIndex(group => group.resolutions.includes(resolution));
+    return index === -1 ? RESOLUTION_GROUPS.length - 1 : index;
+}
+
+/**
+ * Groups already-ranked items by resolution (2160p → 1080p → 720p → SD), keeps at most
+ * `maxStreamsPerResolution` per group and `maxTotalStreams` overall. A limit of 0 means unlimited.
+ * Items keep their ranked order within a group.
+ */
+function _groupAndCap<T>(items: T[], resolutionOf: (item: T) => string, config: Config): T[] {
+    const groups: T[][] = RESOLUTION_GROUPS.map(() => []);
+    for (const item of items) {
+        groups[resolutionGroupIndex(resolutionOf(item))].push(item);
+    }
+
+    const perGroup = config.maxStreamsPerResolution > 0 ? config.maxStreamsPerResolution : Infinity;
+    const grouped = groups.flatMap(group => group.slice(0, perGroup));
+    return config.maxTotalStreams > 0 ? grouped.slice(0, config.maxTotalStreams) : grouped;
+}
+
+// Export functions within an object
+export const rankingEngine = {
+    parseWeights: _parseWeights,
+    formatWeights: _formatWeights,
+    resolveWeights: _resolveWeights,
+    scoreCandidates: _scoreCandidates,
+    explainScore: _explainScore,
+    groupAndCap: _groupAndCap,
+};
@@ -0,0 +1,233 @@
+import { fingerprint } from '../crypto.ts';
+import { getKv, registerCacheNamespace } from '../kv_store.ts';
+import { releaseNameParser } from '../release_name.ts';
+import { torrentUtils } from '../torrent.ts';
+
+// REAL_DEBRID_API_URL points the client at another server, e.g. a local stub for testing.
+export const REAL_DEBRID_API_URL = Deno.env.get("REAL_DEBRID_API_URL") || 'https://api.real-debrid.com/rest/1.0';
+
+export interface RealDebridCacheStatus {
+    isCached: boolean;
+    filename: string | null;
+}
+
+interface RealDebridTorrent {
+    id: string;
+    hash: string;
+    status: string;
+}
+
+interface RealDebridTorrentFile {
+    id: number;
+    path: string;
+    bytes: number;
+    selected: number;
+}
+
+interface RealDebridTorrentInfo {
+    id: string;
+    status: string;
+    files?: RealDebridTorrentFile[];
+    links?: string[];
+}
+
+type ResolveHints = { season?: number; episode?: number; absoluteEpisode?: number; fileIdx?: number };
+
+const CACHE_PREFIX_LINK = registerCacheNamespace("realdebrid_link_", "Unrestricted Real-Debrid links per account");
+// Unrestricted links stay valid for several hours; an hour keeps well inside that.
+const LINK_CACHE_TTL_SECONDS = 60 * 60;
+
+// Real-Debrid allows about 250 requests a minute, so hashes are checked in batches per request.
+const AVAILABILITY_BATCH_SIZE = 40;
+// A cached torrent is "downloaded" almost at once after its files are selected.
+const STATUS_POLL_ATTEMPTS = 5;
+const STATUS_POLL_INTERVAL_MS = 1000;
+// Torrents added most recently come first, so a torrent added for an earlier play is on the first page.
+const TORRENT_LIST_LIMIT = 100;
+
+async function realDebridRequest<T>(
+    baseUrl: string,
+    apiKey: string,
+    path: string,
+    body?: Record<string, string>,
+    method = body ? 'POST' : 'GET'
+): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Accept': 'application/json',
+            ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+        },
+        body: body ? new URLSearchParams(body).toString() : undefined,
+    });
+    if (!response.ok) {
+        let errorBody = '';
+        try {
+            errorBody = await response.text();
+        } catch { /* ignore */ }
+        throw new Error(`Real-Debrid API responded with status ${response.status} for ${path}: ${errorBody}`);
+    }
+    // selectFiles and delete answer 204 No Content.
+    return (response.status === 204 ? null : await response.json()) as T;
+}
+
+/**
+ * Checks Real-Debrid's instant availability for multiple info hashes.
+ * Real-Debrid has restricted this endpoint; when it reports nothing, every hash is treated as not cached.
+ */
+async function _checkInstantAvailability(
+    apiKey: string,
+    infoHashes: string[],
+    baseUrl = REAL_DEBRID_API_URL
+): Promise<Record<string, RealDebridCacheStatus>> {
+    const results: Record<string, RealDebridCacheStatus> = {};
+    infoHashes.forEach(hash => results[hash] = { isCached: false, filename: null });
+    if (infoHashes.length === 0) return results;
+
+    console.log(`[RealDebrid] Checking instant availability for ${infoHashes.length} info_hashes.`);
+    for (let i = 0; i < infoHashes.length; i += AVAILABILITY_BATCH_SIZE) {
+        const batch = infoHashes.slice(i, i + AVAILABILITY_BATCH_SIZE);
+        try {
+            const data = await realDebridRequest<Record<string, { rd?: Record<string, { filename: string; filesize: number }>[] } | []>>(
+                baseUrl, apiKey, `/torrents/instantAvailability/${batch.join('/')}`
+            );
+            for (const hash of batch) {
+                const variants = data?.[hash] ?? data?.[hash.toUpperCase()];
+                const files = !Array.isArray(variants) ? variants?.rd?.[0] : undefined;
+                if (files && Object.keys(files).length > 0) {
+                    const largest = Object.values(files).sort((a, b) => b.filesize - a.filesize)[0];
+                    results[hash] = { isCached: true, filename: largest.filename };
+                }
+            }
+        } catch (error) {
+            console.error(`[RealDebrid] Error during availability check:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return results;
+}
+
+function pickFile(files: RealDebridTorrentFile[], hints: ResolveHints): RealDebridTorrentFile | undefined {
+    const videoFiles = files.filter(file => releaseNameParser.isVideoFile(file.path));
+    const { season, episode, absoluteEpisode, fileIdx } = hints;
+    // Real-Debrid numbers files from 1 in torrent order.
+    const indexedFile = fileIdx !== undefined ? videoFiles.find(file => file.id === fileIdx + 1) : undefined;
+    const episodeFile = season !== undefined && episode !== undefined
+        ? videoFiles.find(file => releaseNameParser.matchesEpisode(releaseNameParser.parse(file.path), season, episode, absoluteEpisode))
+        : undefined;
+    return indexedFile ?? episodeFile ?? [...videoFiles].sort((a, b) => b.bytes - a.bytes)[0];
+}
+
+// The links of a downloaded torrent follow its selected files in file order.
+function linkForFile(info: RealDebridTorrentInfo, file: RealDebridTorrentFile): string | undefined {
+    const selectedIds = (info.files ?? []).filter(f => f.selected === 1).map(f => f.id).sort((a, b) => a - b);
+    const position = selectedIds.indexOf(file.id);
+    return position >= 0 ? info.links?.[position] : undefined;
+}
+
+/**
+ * Looks for a downloaded torrent with the same hash in the account that already has the wanted file selected,
+ * and returns the file's (restricted) link.
+ */
+async function findExistingLink(apiKey: string, infoHash: string, hints: ResolveHints, baseUrl: string): Promise<string | null> {
+    const torrents = await realDebridRequest<RealDebridTorrent[] | null>(baseUrl, apiKey, `/torrents?limit=${TORRENT_LIST_LIMIT}`);
+    for (const torrent of torrents ?? []) {
+        if (torrent.hash.toLowerCase() !== infoHash || torrent.status !== 'downloaded') continue;
+        const info = await realDebridRequest<RealDebridTorrentInfo>(baseUrl, apiKey, `/torrents/info/${torrent.id}`);
+        const file = pickFile(info.files ?? [], hints);
+        const link = file?.selected === 1 ? linkForFile(info, file) : undefined;
+        if (file && link) {
+            console.log(`[RealDebrid] Reusing torrent ${torrent.id} for ${file.path}.`);
+            return link;
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolves the wanted file of a magnet to an unrestricted link. A torrent already in the account is reused
+ * when it has the file selected; otherwise the magnet is added and the file selected. Assumes the torrent
+ * is cached; if it is not ready after a few seconds, the added torrent is deleted again and null is returned.
+ * Links are cached per account, info hash and requested file.
+ */
+async function _getDirectDownloadLink(
+    apiKey: string,
+    magnetUrl: string,
+    hints: ResolveHints = {},
+    baseUrl = REAL_DEBRID_API_URL
+): Promise<string | null> {
+    const infoHash = torrentUtils.parseMagnetUri(magnetUrl)?.infoHash;
+    const { season, episode, fileIdx } = hints;
+    const cacheKey = infoHash
+        ? [CACHE_PREFIX_LINK, await fingerprint(apiKey), infoHash, `${fileIdx ?? ''}:${season ?? ''}:${episode ?? ''}`]
+        : null;
+    const kv = await getKv();
+    if (cacheKey) {
+        const cached = await kv.get<string>(cacheKey);
+        if (cached.value) {
+            console.log(`[RealDebrid] Link cache hit for ${infoHash}.`);
+            return cached.value;
+        }
+    }
+
+    let addedId: string | null = null;
+    try {
+        let link = infoHash ? await findExistingLink(apiKey, infoHash, hints, baseUrl) : null;
+        if (!link) {
+            const added = await realDebridRequest<{ id: string }>(baseUrl, apiKey, '/torrents/addMagnet', { magnet: magnetUrl });
+            addedId = added.id;
+            let info = await realDebridRequest<RealDebridTorrentInfo>(baseUrl, apiKey, `/torrents/info/${added.id}`);
+
+            const file = pickFile(info.files ?? [], hints);
+            if (!file) {
+                console.log(`[RealDebrid] No video file found in torrent ${added.id}.`);
+                return null;
+            }
+
+            await realDebridRequest<null>(baseUrl, apiKey, `/torrents/selectFiles/${added.id}`, { files: String(file.id) });
+            for (let attempt = 0; attempt < STATUS_POLL_ATTEMPTS; attempt++) {
+                info = await realDebridRequest<RealDebridTorrentInfo>(baseUrl, apiKey, `/torrents/info/${added.id}`);
+                if (info.status === 'downloaded' && info.links && info.links.length > 0) break;
+                await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+            }
+            if (info.status !== 'downloaded' || !info.links?.[0]) {
+                console.log(`[RealDebrid] Torrent ${added.id} not ready (status: ${info.status}).`);
+                return null;
+            }
+
+            // Only one file was selected, so the torrent has exactly one link.
+            link = info.links[0];
+            console.log(`[RealDebrid] Resolved ${file.path} from torrent ${added.id}.`);
+            // The torrent is kept so later plays of the same hash can reuse it.
+            addedId = null;
+        }
+
+        const unrestricted = await realDebridRequest<{ download?: string }>(baseUrl, apiKey, '/unrestrict/link', { link });
+        if (unrestricted.download && cacheKey) {
+            try {
+                await kv.set(cacheKey, unrestricted.download, { expireIn: LINK_CACHE_TTL_SECONDS * 1000 });
+            } catch (error) {
+                console.error(`[RealDebrid] Failed to cache link for ${infoHash}:`, error instanceof Error ? error.message : error);
+            }
+        }
+        return unrestricted.download ?? null;
+    } catch (error) {
+        console.error(`[RealDebrid] Error resolving direct download link:`, error instanceof Error ? error.message : error);
+        return null;
+    } finally {
+        if (addedId) {
+            try {
+                await realDebridRequest<null>(baseUrl, apiKey, `/torrents/delete/${addedId}`, undefined, 'DELETE');
+                console.log(`[RealDebrid] Deleted torrent ${addedId} after a failed resolve.`);
+            } catch (error) {
+                console.error(`[RealDebrid] Failed to delete torrent ${addedId}:`, error instanceof Error ? error.message : error);
+            }
+        }
+    }
+}
+
+// Export functions within an object
+export const realDebridApi = {
+    checkInstantAvailability: _checkInstantAvailability,
+    getDirectDownloadLink: _getDirectDownloadLink,
+};
@@ -0,0 +1,281 @@
+export interface ParsedRelease {
+    title?: string;
+    year?: number;
+    // Seasons the name refers to; more than one for ranges like "S01-S03" or "Seasons 1-3".
+    seasons: number[];
+    // Episodes within the season(s), e.g. [1, 2, 3] for "S01E01-E03".
+    episodes: number[];
+    // Anime-style absolute episode numbers, e.g. [105] for "[Group] Title - 105 [1080p]".
+    absoluteEpisodes: number[];
+    resolution?: string;
+    // Named like Bitmagnet's facet values, e.g. "x265" or "WEBDL", so they compare with its classification.
+    codec?: string;
+    source?: string;
+    hdr: string[];
+    audio: string[];
+    editions: string[];
+    releaseGroup?: string;
+    complete: boolean;
+}
+
+export const VIDEO_EXTENSIONS = ['.mkv', '.mp4', '.avi', '.mov', '.wmv', '.flv', '.m4v', '.webm'];
+
+// Ranges wider than this are treated as noise (e.g. "E01-720p" misread) instead of being expanded.
+const MAX_RANGE = 200;
+
+// Continuations: "E02", "-E03", ".E02" or " E02" (another episode), and "-03" (a range).
+const SEASON_EPISODE_PATTERN = /\bs(\d{1,2})[ .-]?e(\d{1,4})((?:[ .-]?e\d{1,4}|-\d{1,4}(?![\dp]))*)(?!\d)/i;
+const CROSS_EPISODE_PATTERN = /\b(\d{1,2})x(\d{2,3})(?:-(?:\d{1,2}x)?(\d{2,3}))?(?!\d)/i;
+// "S01-S03" or "S01-03"; a spaced "S2 - 05" is an anime episode within season 2, not a range.
+const SEASON_RANGE_PATTERN = /\bs(\d{1,2})(?:[ .]?-[ .]?s(\d{1,2})|-(\d{1,2}))?(?![\de])/i;
+const SEASON_WORD_PATTERN = /\b(?:seasons?|saison|staffel|temporada)[ .-]?(\d{1,2})(?:[ .]*(?:-|to|&)[ .]*(\d{1,2}))?(?!\d)/i;
+const EPISODE_ONLY_PATTERN = /\b(?:episode|ep)[ .-]?(\d{1,4})(?:-(\d{1,4}))?(?!\d)|\be(\d{1,4})(?:-e?(\d{1,4}))?(?!\d)/i;
+const ABSOLUTE_EPISODE_PATTERN = /\s-\s(\d{1,4})(?:v\d)?(?:-(\d{1,4}))?(?=[\s.[(]|$)/;
+const LEADING_NUMBER_PATTERN = /^(\d{1,3})(?=[ .-]|$)/;
+const YEAR_PATTERN = /\b((?:19|20)\d{2})(?![\da-z])/gi;
+// Later year-like numbers are part of the title, as in "Blade.Runner.2049.1080p".
+const MAX_YEAR = new Date().getFullYear() + 1;
+const RESOLUTION_PATTERN = /\b(?:(2160|1440|1080|720|576|540|480|360)[pi]|\d{3,4}x(2160|1440|1080|720|576|480))\b/i;
+const UHD_PATTERN = /\b(?:4k|uhd)\b/i;
+const COMPLETE_PATTERN = /\bcomplete\b/i;
+// First token that usually ends the title part of a scene name.
+const TITLE_END_PATTERN = /\b(?:s\d{1,2}(?:[ .-]?e\d{1,4})*|episode|ep[ .]?\d|\d{1,2}x\d{2,3}|seasons?|\d{3,4}[pi]|4k|uhd|complete|bluray|blu-ray|bdrip|brrip|web[ .-]?dl|webrip|hdtv|hdrip|dvdrip|hdcam|camrip|telesync|x26[45]|h[ .]?26[45]|hevc|xvid|divx|extended|directors?|unrated|uncut|remastered|imax|proper|repack|multi)\b|\s-\s\d/i;
+
+// First match wins, so "x265" is not also read as "H265" and "WEBRip" not as "WEB".
+const CODECS: [RegExp, string][] = [
+    [/\bx[ .]?265\b|\bh[ .]?265\b|\bhevc\b/i, 'x265'],
+    [/\bx[ .]?264\b/i, 'x264'],
+    [/\bh[ .]?264\b|\bavc\b/i, 'H264'],
+    [/\bav1\b/i, 'AV1'],
+    [/\bxvid\b/i, 'XviD'],
+    [/\bdivx\b/i, 'DivX'],
+];
+const SOURCES: [RegExp, string][] = [
+    [/\b(?:hd[ .-]?)?cam(?:rip)?\b/i, 'CAM'],
+    [/\b(?:hd[ .-]?)?(?:telesync|ts)\b/i, 'TELESYNC'],
+    [/\b(?:telecine|tc)\b/i, 'TELECINE'],
+    [/\bworkprint\b/i, 'WORKPRINT'],
+    [/\b(?:blu[ .-]?ray|bd[ .-]?rip|br[ .-]?rip|bd[ .-]?remux|bdmv)\b/i, 'BluRay'],
+    [/\bweb[ .-]?rip\b/i, 'WEBRip'],
+    [/\bweb(?:[ .-]?dl)?\b/i, 'WEBDL'],
+    [/\b(?:hdtv|pdtv|sdtv|dsr|tv[ .-]?rip)\b/i, 'TV'],
+    [/\bdvd(?:[ .-]?(?:rip|r|5|9))?\b/i, 'DVD'],
+];
+
+const HDR_FLAGS: [RegExp, string][] = [
+    [/\bhdr10(?:\+|plus)/i, 'HDR10+'],
+    [/\bhdr10\b/i, 'HDR10'],
+    [/\b(?:dv|dovi|dolby[ .-]?vision)\b/i, 'DV'],
+    [/\bhlg\b/i, 'HLG'],
+];
+
+// Each family reports only its most specific match, so "DTS-HD.MA" is not also listed as plain "DTS".
+const AUDIO_FAMILIES: [RegExp, string][][] = [
+    [[/\btrue[ .-]?hd\b/i, 'TrueHD']],
+    [[/\batmos\b/i, 'Atmos']],
+    [[/\bdts[ .-]?hd[ .-]?ma\b/i, 'DTS-HD MA'], [/\bdts[ .-]?x\b/i, 'DTS:X'], [/\bdts[ .-]?hd\b/i, 'DTS-HD'], [/\bdts\b/i, 'DTS']],
+    [[/\b(?:ddp|dd\+|e-?ac-?3)/i, 'DD+'], [/\b(?:dd(?=[ .]?[257]\.[01])|dd\b|ac-?3\b)/i, 'DD']],
+    [[/\baac/i, 'AAC']],
+    [[/\bflac\b/i, 'FLAC']],
+    [[/\bopus\b/i, 'Opus']],
+    [[/\bmp3\b/i, 'MP3']],
+];
+const AUDIO_CHANNELS_PATTERN = /(?<!\d)([2-7]\.[01])(?!\d)/;
+
+const EDITIONS: [RegExp, string][] = [
+    [/\bextended\b/i, 'Extended'],
+    [/\bdirector'?s[ .]cut\b/i, "Director's Cut"],
+    [/\btheatrical\b/i, 'Theatrical'],
+    [/\bunrated\b/i, 'Unrated'],
+    [/\buncut\b/i, 'Uncut'],
+    [/\bremastered\b/i, 'Remastered'],
+    [/\bimax\b/i, 'IMAX'],
+    [/\bcriterion\b/i, 'Criterion'],
+    [/\bspecial[ .]edition\b/i, 'Special Edition'],
+];
+
+// Trailing "-TOKEN" parts that are release descriptors rather than group names.
+const NOT_RELEASE_GROUPS = ['dl', 'rip', 'hd', 'ma', 'x264', 'x265', 'h264', 'h265', 'hevc', 'avc', 'ac3', 'dts', '8bit', '10bit', '12bit'];
+// Range ends such as "S01-S05", "E01-E03" or "Season.1-9".
+const RANGE_END_PATTERN = /^[se]?\d{1,4}$/i;
+
+function range(start: number, end: number): number[] {
+    if (end < start || end - start > MAX_RANGE) return [start];
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+function stripExtension(name: string): string {
+    const dot = name.lastIndexOf('.');
+    if (dot === -1) return name;
+    const extension = name.substring(dot).toLowerCase();
+    return VIDEO_EXTENSIONS.includes(extension) || ['.srt', '.nfo', '.txt', '.sub', '.idx'].includes(extension)
+        ? name.substring(0, dot)
+        : name;
+}
+
+// Parses "E01E02", "-E03" and "-03" suffixes that follow the first episode of an SxxEyy token.
+function parseEpisodeTail(first: number, tail: string): number[] {
+    const episodes = [first];
+    for (const match of tail.matchAll(/(-)?e?(\d{1,4})/gi)) {
+        const episode = parseInt(match[2], 10);
+        const last = episodes[episodes.length - 1];
+        if (match[1] && episode > last) {
+            episodes.push(...range(last + 1, episode));
+        } else if (!episodes.includes(episode)) {
+            episodes.push(episode);
+        }
+    }
+    return episodes;
+}
+
+function parseSegment(rawName: string): ParsedRelease {
+    const name = stripExtension(rawName).replace(/_/g, ' ');
+    const result: ParsedRelease = { seasons: [], episodes: [], absoluteEpisodes: [], hdr: [], audio: [], editions: [], complete: false };
+
+    const seasonEpisode = name.match(SEASON_EPISODE_PATTERN);
+    const crossEpisode = seasonEpisode ? null : name.match(CROSS_EPISODE_PATTERN);
+    if (seasonEpisode) {
+        result.seasons = [parseInt(seasonEpisode[1], 10)];
+        result.episodes = parseEpisodeTail(parseInt(seasonEpisode[2], 10), seasonEpisode[3] || '');
+    } else if (crossEpisode) {
+        const first = parseInt(crossEpisode[2], 10);
+        result.seasons = [parseInt(crossEpisode[1], 10)];
+        result.episodes = crossEpisode[3] ? range(first, parseInt(crossEpisode[3], 10)) : [first];
+    } else {
+        const seasonMatch = name.match(SEASON_WORD_PATTERN) ?? name.match(SEASON_RANGE_PATTERN);
+        if (seasonMatch) {
+            const first = parseInt(seasonMatch[1], 10);
+            const last = seasonMatch[2] ?? seasonMatch[3];
+            result.seasons = last ? range(first, parseInt(last, 10)) : [first];
+        }
+        const episodeMatch = name.match(EPISODE_ONLY_PATTERN);
+        const absoluteMatch = name.match(ABSOLUTE_EPISODE_PATTERN);
+        if (episodeMatch) {
+            const first = parseInt(episodeMatch[1] ?? episodeMatch[3], 10);
+            const last = episodeMatch[2] ?? episodeMatch[4];
+            result.episodes = last ? range(first, parseInt(last, 10)) : [first];
+        } else if (absoluteMatch && !/^(?:19|20)\d{2}$/.test(absoluteMatch[1])) {
+            const first = parseInt(absoluteMatch[1], 10);
+            const numbers = absoluteMatch[2] ? range(first, parseInt(absoluteMatch[2], 10)) : [first];
+            // "[Group] Title S2 - 05" numbers episodes within the named season.
+            if (result.seasons.length > 0) result.episodes = numbers;
+            else result.absoluteEpisodes = numbers;
+        }
+    }
+
+    // The last year-like token wins, so a title such as "2012" is not mistaken for the release year.
+    const titlePart = name.replace(/^\[[^\]]+\]\s*/, '');
+    const yearMatch = [...titlePart.matchAll(YEAR_PATTERN)]
+        .filter(match => match.index !== 0 && parseInt(match[1], 10) <= MAX_YEAR)
+        .pop();
+    if (yearMatch) result.year = parseInt(yearMatch[1], 10);
+
+    const resolution = name.match(RESOLUTION_PATTERN);
+    if (resolution) result.resolution = `${resolution[1] ?? resolution[2]}p`;
+    else if (UHD_PATTERN.test(name)) result.resolution = '2160p';
+
+    for (const [pattern, flag] of HDR_FLAGS) {
+        if (pattern.test(name)) result.hdr.push(flag);
+    }
+    if (result.hdr.length === 0 && /\bhdr\b/i.test(name)) result.hdr.push('HDR');
+
+    for (const family of AUDIO_FAMILIES) {
+        const match = family.find(([pattern]) => pattern.test(name));
+        if (match) result.audio.push(match[1]);
+    }
+    const channels = name.match(AUDIO_CHANNELS_PATTERN);
+    if (channels && result.audio.length > 0) result.audio.push(channels[1]);
+
+    for (const [pattern, edition] of EDITIONS) {
+        if (pattern.test(name)) result.editions.push(edition);
+    }
+
+    const fansubGroup = name.match(/^\[([^\]]+)\]/);
+    const sceneGroup = name.match(/-([a-z0-9]+)(?:\[[^\]]*\])?$/i);
+    if (fansubGroup) {
+        result.releaseGroup = fansubGroup[1].trim();
+    } else if (sceneGroup && !NOT_RELEASE_GROUPS.includes(sceneGroup[1].toLowerCase()) && !RANGE_END_PATTERN.test(sceneGroup[1])) {
+        result.releaseGroup = sceneGroup[1];
+    }
+
+    result.complete = COMPLETE_PATTERN.test(name);
+
+    // The title ends at the release year or the first other marker. Year-like numbers before the release
+    // year belong to the title ("2012.2009.1080p", "Blade.Runner.2049.2017.1080p").
+    const markerEnd = titlePart.search(TITLE_END_PATTERN);
+    const titleEnd = yearMatch?.index !== undefined && (markerEnd === -1 || yearMatch.index < markerEnd) ? yearMatch.index : markerEnd;
+    const title = (titleEnd === -1 ? titlePart : titlePart.substring(0, titleEnd))
+        .replace(/[.]/g, ' ')
+        .replace(/[\s([-]+$/, '')
+        .trim();
+    if (title) result.title = title;
+
+    // Codec and source are read after the title only, so "Charlotte's.Web" is no WEB-DL.
+    const tags = titleEnd === -1 ? '' : titlePart.substring(titleEnd);
+    result.codec = CODECS.find(([pattern]) => pattern.test(tags))?.[1];
+    result.source = SOURCES.find(([pattern]) => pattern.test(tags))?.[1];
+
+    return result;
+}
+
+/**
+ * Parses a release or file name. For paths ("Show.S01/Season 1/Episode 05.mkv") the file name is
+ * parsed first and missing details such as the season, year or resolution are taken from the
+ * nearest folder that has them. Episodes are never inherited from folders, since a pack folder
+ * name like "S01E01-E10" describes its content rather than each file.
+ */
+function _parseReleaseName(path: string): ParsedRelease {
+    const segments = path.split(/[\\/]/).filter(Boolean);
+    const fileName = segments.pop() ?? '';
+    const result = parseSegment(fileName);
+
+    for (const folder of segments.reverse()) {
+        const parsed = parseSegment(folder);
+        if (result.seasons.length === 0) result.seasons = parsed.seasons;
+        result.year ??= parsed.year;
+        result.resolution ??= parsed.resolution;
+        result.codec ??= parsed.codec;
+        result.source ??= parsed.source;
+        result.releaseGroup ??= parsed.releaseGroup;
+        result.title ??= parsed.title;
+        if (result.hdr.length === 0) result.hdr = parsed.hdr;
+        if (result.audio.length === 0) result.audio = parsed.audio;
+        if (result.editions.length === 0) result.editions = parsed.editions;
+    }
+
+    // A plain numbered file ("05 - Pilot.mkv") is an episode of the folder's season, or an absolute number without one.
+    if (segments.length > 0 && result.episodes.length === 0 && result.absoluteEpisodes.length === 0) {
+        const leading = stripExtension(fileName).match(LEADING_NUMBER_PATTERN);
+        if (leading) {
+            const number = parseInt(leading[1], 10);
+            if (result.seasons.length > 0) result.episodes = [number];
+            else result.absoluteEpisodes = [number];
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Whether a parsed name contains the given episode. Names with an episode but no season
+ * ("Episode 05.mkv" outside a season folder) only count for season 1. Absolute numbers are
+ * compared with `absoluteEpisode` when known (anime), otherwise with season 1 episodes.
+ */
+function _matchesEpisode(parsed: ParsedRelease, season: number, episode: number, absoluteEpisode?: number): boolean {
+    const absolute = absoluteEpisode ?? (season === 1 ? episode : undefined);
+    if (absolute !== undefined && parsed.absoluteEpisodes.includes(absolute)) return true;
+    if (!parsed.episodes.includes(episode)) return false;
+    return parsed.seasons.includes(season) || (parsed.seasons.length === 0 && season === 1);
+}
+
+function _isVideoFile(path: string): boolean {
+    const extension = path.substring(path.lastIndexOf('.')).toLowerCase();
+    return VIDEO_EXTENSIONS.includes(extension);
+}
+
+// Export functions within an object
+export const releaseNameParser = {
+    parse: _parseReleaseName,
+    matchesEpisode: _matchesEpisode,
+    isVideoFile: _isVideoFile,
+};
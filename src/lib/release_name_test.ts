@@ -0,0 +1,137 @@
+import { assert, assertEquals, assertFalse } from '@std/assert';
+import { releaseNameParser } from './release_name.ts';
+
+interface Fixture {
+    name: string;
+    title?: string;
+    year?: number;
+    seasons?: number[];
+    episodes?: number[];
+    absoluteEpisodes?: number[];
+    resolution?: string;
+    codec?: string;
+    source?: string;
+    group?: string;
+}
+
+// Real release names. Fields left out are expected to be absent (or empty for the number lists).
+const FIXTURES: Fixture[] = [
+    // Movies
+    { name: 'The.Matrix.1999.1080p.BluRay.x264-SPARKS', title: 'The Matrix', year: 1999, resolution: '1080p', codec: 'x264', source: 'BluRay', group: 'SPARKS' },
+    { name: 'Movie.Title.2021.1080p.WEBRip.x264-RARBG.mp4', title: 'Movie Title', year: 2021, resolution: '1080p', codec: 'x264', source: 'WEBRip', group: 'RARBG' },
+    { name: 'Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR10.H.265-FLUX', title: 'Dune Part Two', year: 2024, resolution: '2160p', codec: 'x265', source: 'WEBDL', group: 'FLUX' },
+    { name: 'The.Lord.of.the.Rings.The.Fellowship.of.the.Ring.2001.EXTENDED.1080p.BluRay.x264-FSiHD', title: 'The Lord of the Rings The Fellowship of the Ring', year: 2001, resolution: '1080p', codec: 'x264', source: 'BluRay', group: 'FSiHD' },
+    { name: 'Aliens.1986.Directors.Cut.720p.BluRay.DTS-HD.MA.5.1.x264-GRP', title: 'Aliens', year: 1986, resolution: '720p', codec: 'x264', source: 'BluRay', group: 'GRP' },
+    { name: 'Inception.2010.720p.HDTV.XviD-ETRG', title: 'Inception', year: 2010, resolution: '720p', codec: 'XviD', source: 'TV', group: 'ETRG' },
+    { name: 'Joker.2019.HDCAM.x264-GRP', title: 'Joker', year: 2019, codec: 'x264', source: 'CAM', group: 'GRP' },
+    { name: 'Movie.2020.1080p.WEB-DL-EVO', title: 'Movie', year: 2020, resolution: '1080p', source: 'WEBDL', group: 'EVO' },
+    // Years that are part of the title
+    { name: 'Blade.Runner.2049.1080p.BluRay.x264-SPARKS', title: 'Blade Runner 2049', resolution: '1080p', codec: 'x264', source: 'BluRay', group: 'SPARKS' },
+    { name: 'Blade.Runner.2049.2017.2160p.UHD.BluRay.x265.10bit.HDR.TrueHD.7.1.Atmos-TERMiNAL', title: 'Blade Runner 2049', year: 2017, resolution: '2160p', codec: 'x265', source: 'BluRay', group: 'TERMiNAL' },
+    { name: '2012.2009.1080p.BluRay.x264-METiS', title: '2012', year: 2009, resolution: '1080p', codec: 'x264', source: 'BluRay', group: 'METiS' },
+    { name: '1917.2019.1080p.WEB-DL.DD5.1.H264-FGT', title: '1917', year: 2019, resolution: '1080p', codec: 'H264', source: 'WEBDL', group: 'FGT' },
+    // Title words that look like tags
+    { name: 'Charlottes.Web.2006.DVDRip.XviD-DoNE', title: 'Charlottes Web', year: 2006, codec: 'XviD', source: 'DVD', group: 'DoNE' },
+    // Trailing descriptors that are no release group
+    { name: 'Oppenheimer.2023.1080p.WEBRip.x265-10bit', title: 'Oppenheimer', year: 2023, resolution: '1080p', codec: 'x265', source: 'WEBRip' },
+    { name: 'Show.Name.S01E01.1080p.WEB-DL.x264-10bit', title: 'Show Name', seasons: [1], episodes: [1], resolution: '1080p', codec: 'x264', source: 'WEBDL' },
+    { name: 'Seinfeld.Season.1-9.Complete.720p.WEB-DL.x264', title: 'Seinfeld', seasons: [1, 2, 3, 4, 5, 6, 7, 8, 9], resolution: '720p', codec: 'x264', source: 'WEBDL' },
+    // Episodes
+    { name: 'Breaking.Bad.S05E14.Ozymandias.1080p.WEB-DL.DD5.1.H.264-BS', title: 'Breaking Bad', seasons: [5], episodes: [14], resolution: '1080p', codec: 'H264', source: 'WEBDL', group: 'BS' },
+    { name: 'Game.of.Thrones.S08E03.1080p.WEB.H264-MEMENTO', title: 'Game of Thrones', seasons: [8], episodes: [3], resolution: '1080p', codec: 'H264', source: 'WEBDL', group: 'MEMENTO' },
+    { name: 'Chernobyl.S01E05.Vichnaya.Pamyat.2160p.AMZN.WEB-DL.DDP5.1.HDR.HEVC-TOMMY', title: 'Chernobyl', seasons: [1], episodes: [5], resolution: '2160p', codec: 'x265', source: 'WEBDL', group: 'TOMMY' },
+    { name: 'Doctor.Who.2005.S13E01.1080p.HDTV.x265-GRP', title: 'Doctor Who', year: 2005, seasons: [13], episodes: [1], resolution: '1080p', codec: 'x265', source: 'TV', group: 'GRP' },
+    { name: 'Shingeki.no.Kyojin.S04E28.1080p.WEB.H264-SENPAI', title: 'Shingeki no Kyojin', seasons: [4], episodes: [28], resolution: '1080p', codec: 'H264', source: 'WEBDL', group: 'SENPAI' },
+    { name: 'The.Simpsons.1x02.Bart.the.Genius.DVDRip.XviD', title: 'The Simpsons', seasons: [1], episodes: [2], codec: 'XviD', source: 'DVD' },
+    // Multi-episode files
+    { name: 'The.Office.US.S03E01-E03.720p.HDTV.x264-GRP', title: 'The Office US', seasons: [3], episodes: [1, 2, 3], resolution: '720p', codec: 'x264', source: 'TV', group: 'GRP' },
+    { name: 'Friends.S01E01E02.480p.DVDRip.XviD-GRP', title: 'Friends', seasons: [1], episodes: [1, 2], resolution: '480p', codec: 'XviD', source: 'DVD', group: 'GRP' },
+    { name: 'Show.S01E01-03', title: 'Show', seasons: [1], episodes: [1, 2, 3] },
+    { name: 'Modern.Family.S01E01.E02.720p.HDTV.x264-GRP', title: 'Modern Family', seasons: [1], episodes: [1, 2], resolution: '720p', codec: 'x264', source: 'TV', group: 'GRP' },
+    { name: 'Modern.Family.S01E01-E02.720p.HDTV.x264-GRP', title: 'Modern Family', seasons: [1], episodes: [1, 2], resolution: '720p', codec: 'x264', source: 'TV', group: 'GRP' },
+    { name: 'Modern Family S01E01 E02 720p', title: 'Modern Family', seasons: [1], episodes: [1, 2], resolution: '720p' },
+    // Season packs
+    { name: 'House.M.D.S02.1080p.BluRay.x265-RARBG', title: 'House M D', seasons: [2], resolution: '1080p', codec: 'x265', source: 'BluRay', group: 'RARBG' },
+    { name: 'Sherlock.S04.Complete.720p.BluRay.x264-DEMAND', title: 'Sherlock', seasons: [4], resolution: '720p', codec: 'x264', source: 'BluRay', group: 'DEMAND' },
+    { name: 'Stargate.SG-1.S01-S10.COMPLETE.DVDRip.XviD-GRP', title: 'Stargate SG-1', seasons: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], codec: 'XviD', source: 'DVD', group: 'GRP' },
+    { name: 'Show S01 - S03 1080p', title: 'Show', seasons: [1, 2, 3], resolution: '1080p' },
+    // Anime
+    { name: '[SubsPlease] One Piece - 1089 (1080p) [ABCD1234].mkv', title: 'One Piece', absoluteEpisodes: [1089], resolution: '1080p', group: 'SubsPlease' },
+    { name: '[Erai-raws] Jujutsu Kaisen S2 - 05 [1080p][Multiple Subtitle].mkv', title: 'Jujutsu Kaisen', seasons: [2], episodes: [5], resolution: '1080p', group: 'Erai-raws' },
+    { name: '[HorribleSubs] Naruto Shippuuden - 001-010 [720p]', title: 'Naruto Shippuuden', absoluteEpisodes: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], resolution: '720p', group: 'HorribleSubs' },
+    { name: '[Group] Title - 12v2 [1080p].mkv', title: 'Title', absoluteEpisodes: [12], resolution: '1080p', group: 'Group' },
+];
+
+for (const fixture of FIXTURES) {
+    Deno.test(`parse: ${fixture.name}`, () => {
+        const parsed = releaseNameParser.parse(fixture.name);
+        assertEquals({
+            title: parsed.title,
+            year: parsed.year,
+            seasons: parsed.seasons,
+            episodes: parsed.episodes,
+            absoluteEpisodes: parsed.absoluteEpisodes,
+            resolution: parsed.resolution,
+            codec: parsed.codec,
+            source: parsed.source,
+            group: parsed.releaseGroup,
+        }, {
+            title: fixture.title,
+            year: fixture.year,
+            seasons: fixture.seasons ?? [],
+            episodes: fixture.episodes ?? [],
+            absoluteEpisodes: fixture.absoluteEpisodes ?? [],
+            resolution: fixture.resolution,
+            codec: fixture.codec,
+            source: fixture.source,
+            group: fixture.group,
+        });
+    });
+}
+
+Deno.test('parse: HDR, audio and edition flags', () => {
+    const parsed = releaseNameParser.parse('Blade.Runner.2049.2017.2160p.UHD.BluRay.x265.10bit.HDR10.DV.TrueHD.7.1.Atmos.Extended-TERMiNAL');
+    assertEquals(parsed.hdr, ['HDR10', 'DV']);
+    assertEquals(parsed.audio, ['TrueHD', 'Atmos', '7.1']);
+    assertEquals(parsed.editions, ['Extended']);
+
+    assertEquals(releaseNameParser.parse('Aliens.1986.Directors.Cut.720p.BluRay.DTS-HD.MA.5.1.x264-GRP').audio, ['DTS-HD MA', '5.1']);
+    assert(releaseNameParser.parse('Sherlock.S04.Complete.720p.BluRay.x264-DEMAND').complete);
+});
+
+Deno.test('parse: paths take missing details from their folders', () => {
+    const folderLayout = releaseNameParser.parse('Show.Name.S01.1080p.WEB-DL.x264-GRP/Season 1/Episode 05.mkv');
+    assertEquals(folderLayout.seasons, [1]);
+    assertEquals(folderLayout.episodes, [5]);
+    assertEquals(folderLayout.resolution, '1080p');
+    assertEquals(folderLayout.codec, 'x264');
+    assertEquals(folderLayout.releaseGroup, 'GRP');
+
+    const numberedFile = releaseNameParser.parse('The.Wire.Complete.Series.S01-S05/Season 2/05 - Undertow.mkv');
+    assertEquals(numberedFile.seasons, [2]);
+    assertEquals(numberedFile.episodes, [5]);
+    assertEquals(numberedFile.releaseGroup, undefined);
+
+    const animeBatch = releaseNameParser.parse('Bleach/[Group] Bleach - 366 [1080p].mkv');
+    assertEquals(animeBatch.absoluteEpisodes, [366]);
+});
+
+Deno.test('matchesEpisode', () => {
+    const parse = releaseNameParser.parse;
+    assert(releaseNameParser.matchesEpisode(parse('The.Office.US.S03E01-E03.720p'), 3, 2));
+    assertFalse(releaseNameParser.matchesEpisode(parse('The.Office.US.S03E01-E03.720p'), 3, 4));
+    assertFalse(releaseNameParser.matchesEpisode(parse('The.Office.US.S03E01-E03.720p'), 2, 2));
+    assert(releaseNameParser.matchesEpisode(parse('Modern.Family.S01E01.E02.720p.mkv'), 1, 2));
+    // Episodes without a season only count for season 1.
+    assert(releaseNameParser.matchesEpisode(parse('Episode 05.mkv'), 1, 5));
+    assertFalse(releaseNameParser.matchesEpisode(parse('Episode 05.mkv'), 2, 5));
+    // Absolute numbers match the absolute episode when one is known.
+    assert(releaseNameParser.matchesEpisode(parse('[Group] One Piece - 1089 [1080p].mkv'), 21, 197, 1089));
+    assertFalse(releaseNameParser.matchesEpisode(parse('[Group] One Piece - 1088 [1080p].mkv'), 21, 197, 1089));
+});
+
+Deno.test('isVideoFile', () => {
+    assert(releaseNameParser.isVideoFile('Show/Season 1/Show.S01E01.MKV'));
+    assertFalse(releaseNameParser.isVideoFile('Show/Season 1/Show.S01E01.srt'));
+    assertFalse(releaseNameParser.isVideoFile('Show/Sample'));
+});
@@ -0,0 +1,119 @@
+import { fingerprint } from './crypto.ts';
+import { getDebridApiKey } from './debrid/providers.ts';
+import { getChunked, registerCacheNamespace, setChunked } from './kv_store.ts';
+import { type ParsedId, type SearchResult } from './stremio_helpers.ts';
+import { type Config } from '../types.ts';
+import type { Stream } from '../deps.ts';
+
+function envSeconds(name: string, fallback: number): number {
+    const value = parseInt(Deno.env.get(name) ?? '', 10);
+    return isNaN(value) || value < 0 ? fallback : value;
+}
+
+// How long a stream list is served as-is, and how long after that it is still served while being refreshed.
+export const STREAM_CACHE_FRESH_SECONDS = envSeconds('STREAM_CACHE_FRESH_SECONDS', 60 * 60);
+export const STREAM_CACHE_STALE_SECONDS = envSeconds('STREAM_CACHE_STALE_SECONDS', 6 * 60 * 60);
+// Freshness of lists without any streams; new releases are picked up sooner.
+export const STREAM_CACHE_EMPTY_FRESH_SECONDS = envSeconds('STREAM_CACHE_EMPTY_FRESH_SECONDS', 5 * 60);
+
+export interface CachedStreams {
+    streams: Stream[];
+    storedAt: number;
+    freshUntil: number;
+}
+
+// Raw Bitmagnet results, shared by every config that searches the same way.
+const CACHE_PREFIX_SEARCH = registerCacheNamespace("search_", "Raw Bitmagnet search results");
+// Rendered Stream[] lists, one per combination of search and rendering settings.
+const CACHE_PREFIX_STREAM = registerCacheNamespace("stream_", "Stream lists per config");
+
+// Settings that change which torrents a search returns. Timeouts and budgets are left out: they only decide
+// how much of the same result set arrives in time.
+const SEARCH_CONFIG_FIELDS = [
+    'bitmagnetUrl', 'bitmagnetSortField', 'bitmagnetSortDescending', 'bitmagnetSearchLimit', 'bitmagnetSearchMode',
+    'bitmagnetMaxPages', 'allowedResolutions', 'excludedSources', 'requiredLanguages', 'preferredLanguages',
+    'titleMatchThreshold', 'titleMatchStrictness',
+] as const satisfies readonly (keyof Config)[];
+
+// Settings applied per user on top of the search results: debrid lookups, ranking, caps and titles.
+const RENDER_CONFIG_FIELDS = [
+    'debridProvider', 'offerDebridTransfers', 'rankingPreset', 'rankingWeights', 'preferredLanguages', 'rankingDebug',
+    'maxStreamsPerResolution', 'maxTotalStreams',
+] as const satisfies readonly (keyof Config)[];
+
+function pickFields(config: Config, fields: readonly (keyof Config)[]): Record<string, unknown> {
+    return Object.fromEntries(fields.map(field => [field, config[field]]));
+}
+
+// API keys never go into cache keys; only whether one is set, which changes metadata lookups and debrid streams.
+function searchOptions(config: Config): Record<string, unknown> {
+    return { ...pickFields(config, SEARCH_CONFIG_FIELDS), hasTmdbKey: !!config.tmdbApiKey };
+}
+
+function renderOptions(config: Config): Record<string, unknown> {
+    return { ...pickFields(config, RENDER_CONFIG_FIELDS), hasDebridKey: !!getDebridApiKey(config) };
+}
+
+async function buildKey(prefix: string, parsedId: ParsedId, options: Record<string, unknown>): Promise<Deno.KvKey> {
+    return [prefix + parsedId.baseId, parsedId.season ?? "nosn", parsedId.episode ?? "noep", await fingerprint(JSON.stringify(options))];
+}
+
+async function _searchKey(parsedId: ParsedId, config: Config): Promise<Deno.KvKey> {
+    return await buildKey(CACHE_PREFIX_SEARCH, parsedId, searchOptions(config));
+}
+
+async function _streamKey(parsedId: ParsedId, config: Config): Promise<Deno.KvKey> {
+    return await buildKey(CACHE_PREFIX_STREAM, parsedId, { ...searchOptions(config), ...renderOptions(config) });
+}
+
+// Search results include file lists and easily pass Deno KV's 64 KiB value limit, so they are stored in parts.
+// An empty result is stored as an empty torrent list.
+async function _getSearchResult(kv: Deno.Kv, key: Deno.KvKey): Promise<SearchResult | null> {
+    return await getChunked<SearchResult>(kv, key);
+}
+
+async function _setSearchResult(kv: Deno.Kv, key: Deno.KvKey, result: SearchResult, ttlSeconds: number): Promise<void> {
+    await setChunked(kv, key, result, { expireIn: ttlSeconds * 1000 });
+}
+
+// Returns the cached list and whether it is past its freshness window. Stale entries are kept in KV
+// for STREAM_CACHE_STALE_SECONDS beyond it. Long lists with ranking details pass 64 KiB too, so lists are
+// stored in parts as well.
+async function _getStreams(kv: Deno.Kv, key: Deno.KvKey): Promise<{ entry: CachedStreams; isStale: boolean } | null> {
+    const cached = await getChunked<CachedStreams>(kv, key);
+    if (cached === null || !Array.isArray(cached.streams)) return null;
+    return { entry: cached, isStale: Date.now() >= cached.freshUntil };
+}
+
+async function _setStreams(kv: Deno.Kv, key: Deno.KvKey, streams: Stream[], freshSeconds: number): Promise<void> {
+    const now = Date.now();
+    const entry: CachedStreams = { streams, storedAt: now, freshUntil: now + freshSeconds * 1000 };
+    await setChunked(kv, key, entry, { expireIn: (freshSeconds + STREAM_CACHE_STALE_SECONDS) * 1000 });
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` unless one is already running for the same key, in which case its promise is shared.
+ * Concurrent requests for a newly released episode then cause a single search.
+ */
+function _coalesce<T>(key: Deno.KvKey, task: () => Promise<T>): Promise<T> {
+    const id = JSON.stringify(key);
+    const running = inFlight.get(id);
+    if (running) return running as Promise<T>;
+
+    const promise = task().finally(() => inFlight.delete(id));
+    inFlight.set(id, promise);
+    return promise;
+}
+
+// Export functions within an object
+export const streamCache = {
+    searchKey: _searchKey,
+    streamKey: _streamKey,
+    getSearchResult: _getSearchResult,
+    setSearchResult: _setSearchResult,
+    getStreams: _getStreams,
+    setStreams: _setStreams,
+    coalesce: _coalesce,
+};
@@ -1,16 +1,26 @@
-import { type Stream } from '../deps.ts';
-import { bitmagnetFunctions, type TorrentInfo } from './bitmagnet/functions.ts'; 
-import { tmdbApi } from './tmdb/api.ts';
+import type { Stream, MetaPreview, MetaDetail } from '../deps.ts';
+import { bitmagnetFunctions, type TorrentInfo, type ContentInfo, type ContentDetails, type SearchOptions } from './bitmagnet/functions.ts'; 
+import { metadataApi } from './metadata/providers.ts';
 import { torrentUtils, type ParsedMagnetUri } from './torrent.ts'; 
 import { trackerSource } from './trackers.ts'; 
+import { rankingEngine } from './ranking.ts';
+import { animeApi, type AnimeIdSource } from './anime/api.ts';
+import { titleMatcher } from './title_match.ts';
 
-import { premiumizeApi, type PremiumizeCacheStatus } from './premiumize/premiumize.ts'; 
+import { getDebridProvider, type DebridProvider, type DebridAvailability } from './debrid/providers.ts';
 import { type Config } from "../types.ts";
 
 export interface ParsedId {
-    imdbId: string;
+    // The Stremio id without season/episode, e.g. "tt0944947" or "bitmagnet:tmdb:1399".
+    baseId: string;
+    imdbId?: string;
+    contentRef?: { source: string; id: string };
+    // Kitsu/MAL entry for anime ids ("kitsu:1376:5"). Their episode numbers count within the entry.
+    animeRef?: { source: AnimeIdSource; id: string };
     season?: number;
     episode?: number;
+    // Episode counted across all seasons, as fansub releases number them. Set for anime episodes.
+    absoluteEpisode?: number;
     searchType: 'movie' | 'series';
 }
 
@@ -19,6 +29,77 @@ export interface SearchResult {
     title?: string;
 }
 
+export const BITMAGNET_ID_PREFIX = 'bitmagnet:';
+export const ANIME_ID_PREFIXES = ['kitsu:', 'mal:'];
+
+// Titles tried per search; more variants mostly add duplicate results and load on Bitmagnet.
+const MAX_TITLE_VARIANTS = 3;
+const MAX_ANIME_TITLE_VARIANTS = 2;
+
+const METAHUB_POSTER_URL = 'https://images.metahub.space/poster/medium';
+
+// Stremio id for a Bitmagnet content item: the IMDB id when Bitmagnet knows it, otherwise bitmagnet:<source>:<id>.
+export function getStremioContentId(content: ContentInfo): string {
+    return content.imdbId ?? `${BITMAGNET_ID_PREFIX}${content.source}:${content.id}`;
+}
+
+// Collapses torrents into one meta preview per distinct Bitmagnet content item, keeping the torrents' order.
+export function createMetaPreviews(torrents: TorrentInfo[], type: 'movie' | 'series'): MetaPreview[] {
+    const metas = new Map<string, MetaPreview>();
+
+    for (const torrent of torrents) {
+        const content = torrent.content;
+        if (!content) continue;
+        const id = getStremioContentId(content);
+        if (metas.has(id)) continue;
+
+        metas.set(id, {
+            id,
+            type,
+            name: content.title,
+            poster: content.imdbId ? `${METAHUB_POSTER_URL}/${content.imdbId}/img` : undefined,
+            releaseInfo: content.releaseYear ? String(content.releaseYear) : undefined,
+            description: content.overview || undefined,
+        });
+    }
+
+    return [...metas.values()];
+}
+
+// Builds a full Stremio meta object from a Bitmagnet Content record.
+export function createMetaDetail(details: ContentDetails, type: 'movie' | 'series'): MetaDetail {
+    const id = `${BITMAGNET_ID_PREFIX}${details.source}:${details.id}`;
+    const released = details.releaseDate
+        ? new Date(details.releaseDate).toISOString()
+        : new Date(Date.UTC(details.releaseYear ?? 1970, 0, 1)).toISOString();
+
+    const meta: MetaDetail = {
+        id,
+        type,
+        name: details.title,
+        poster: details.imdbId ? `${METAHUB_POSTER_URL}/${details.imdbId}/img` : undefined,
+        description: details.overview || undefined,
+        releaseInfo: details.releaseYear ? String(details.releaseYear) : undefined,
+        runtime: details.runtime ? `${details.runtime} min` : undefined,
+        imdbRating: details.voteAverage ? details.voteAverage.toFixed(1) : undefined,
+        genres: details.genres.length > 0 ? details.genres : undefined,
+    };
+
+    if (type === 'series') {
+        meta.videos = details.seasons.flatMap(({ season, episodes }) =>
+            episodes.map(episode => ({
+                id: `${id}:${season}:${episode}`,
+                title: `Episode ${episode}`,
+                season,
+                episode,
+                released,
+            }))
+        );
+    }
+
+    return meta;
+}
+
 export function parseStremioId(args: { type: string; id: string }): ParsedId | null {
     let imdbId = args.id;
     let season: number | undefined;
@@ -30,6 +111,53 @@ export function parseStremioId(args: { type: string; id: string }): ParsedId | n
         return null;
     }
 
+    if (args.id.startsWith(BITMAGNET_ID_PREFIX)) {
+        // bitmagnet:<source>:<contentId> or, for episodes, bitmagnet:<source>:<contentId>:<season>:<episode>
+        const parts = args.id.split(':');
+        if (parts.length === 5 && searchType === 'series') {
+            season = parseInt(parts[3], 10);
+            episode = parseInt(parts[4], 10);
+            if (isNaN(season) || isNaN(episode)) {
+                console.log("Could not parse season/episode from Bitmagnet ID:", args.id);
+                return null;
+            }
+        } else if (parts.length !== 3) {
+            console.log("Invalid Bitmagnet ID format:", args.id);
+            return null;
+        }
+        if (!parts[1] || !parts[2]) {
+            console.log("Invalid Bitmagnet ID format:", args.id);
+            return null;
+        }
+        return {
+            baseId: parts.slice(0, 3).join(':'),
+            contentRef: { source: parts[1], id: parts[2] },
+            season, episode, searchType,
+        };
+    }
+
+    const animePrefix = ANIME_ID_PREFIXES.find(prefix => args.id.startsWith(prefix));
+    if (animePrefix) {
+        // kitsu:<id> or mal:<id>; series episodes append :<episode>
+        const parts = args.id.split(':');
+        if (!parts[1] || parts.length > 3) {
+            console.log("Invalid anime ID format:", args.id);
+            return null;
+        }
+        if (parts.length === 3) {
+            episode = parseInt(parts[2], 10);
+            if (isNaN(episode)) {
+                console.log("Could not parse episode from anime ID:", args.id);
+                return null;
+            }
+        }
+        return {
+            baseId: parts.slice(0, 2).join(':'),
+            animeRef: { source: parts[0] as AnimeIdSource, id: parts[1] },
+            episode, searchType,
+        };
+    }
+
     if (searchType === 'series' && args.id.includes(':')) {
         const parts = args.id.split(':');
         if (parts.length === 3 && parts[0].startsWith('tt')) {
@@ -49,154 +177,290 @@ export function parseStremioId(args: { type: string; id: string }): ParsedId | n
         return null;
     }
 
-    return { imdbId, season, episode, searchType };
+    return { baseId: imdbId, imdbId, season, episode, searchType };
+}
+
+// Runs several queries in parallel and merges their results, deduplicated by info hash.
+// A failing query does not cost us the others' results; only give up when every query failed.
+async function searchQueries(
+    queries: string[],
+    searchType: 'movie' | 'series',
+    config: Config,
+    options: SearchOptions = {}
+): Promise<TorrentInfo[]> {
+    const settled = await Promise.allSettled(queries.map(query => bitmagnetFunctions.bitmagnetSearch(query, searchType, config, options)));
+    const resultSets: TorrentInfo[][] = [];
+    settled.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+            resultSets.push(result.value);
+        } else {
+            console.error(`Bitmagnet search failed for query "${queries[i]}":`, result.reason instanceof Error ? result.reason.message : result.reason);
+        }
+    });
+    if (resultSets.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    const merged = new Map<string, TorrentInfo>();
+    for (const torrent of resultSets.flat()) {
+        const key = torrent.infoHash || torrent.magnetUrl || torrent.title;
+        if (!merged.has(key)) merged.set(key, torrent);
+    }
+    return [...merged.values()];
+}
+
+// Runs the search for one or more base queries (title variants) in parallel. For an episode, the episode,
+// season-pack and complete-pack queries run together and only torrents that really contain the episode are kept.
+async function searchEpisodeAndPacks(
+    baseQueries: string[],
+    parsedId: ParsedId,
+    config: Config,
+    filter: (torrent: TorrentInfo) => boolean
+): Promise<TorrentInfo[]> {
+    const { season, episode, searchType } = parsedId;
+    if (searchType !== 'series' || season === undefined || episode === undefined) {
+        console.log(`Searching Bitmagnet for ${searchType} with queries: ${baseQueries.map(q => `"${q}"`).join(', ')}`);
+        const searchResults = (await searchQueries(baseQueries, searchType, config)).filter(filter);
+        console.log(`Found ${searchResults.length} potential streams from Bitmagnet for ${baseQueries.length} quer${baseQueries.length === 1 ? 'y' : 'ies'}.`);
+        return searchResults;
+    }
+
+    const seasonPad = String(season).padStart(2, '0');
+    const episodePad = String(episode).padStart(2, '0');
+    const queries = baseQueries.flatMap(baseQuery => [
+        `${baseQuery} S${seasonPad}E${episodePad}`,
+        `${baseQuery} S${seasonPad}`,
+        `${baseQuery} Complete`,
+    ]);
+    console.log(`Searching Bitmagnet for series episode and packs with queries: ${queries.map(q => `"${q}"`).join(', ')}`);
+
+    const candidates = (await searchQueries(queries, searchType, config)).filter(filter);
+    const searchResults = candidates.filter(torrent => torrentUtils.containsEpisode(torrent, season, episode));
+    console.log(`Found ${searchResults.length} streams containing S${seasonPad}E${episodePad} out of ${candidates.length} episode/pack candidates.`);
+    return searchResults;
+}
+
+/**
+ * Fills in the season and absolute episode number of an anime episode id. Kitsu/MAL list each season
+ * as its own entry, so "kitsu:<season 2 entry>:5" is S02E05 and, after a 25-episode first season, episode 30.
+ * Other ids are returned unchanged.
+ */
+export async function resolveAnimeEpisode(parsedId: ParsedId): Promise<ParsedId> {
+    const { animeRef, episode } = parsedId;
+    if (!animeRef || episode === undefined) return parsedId;
+
+    const details = await animeApi.getAnimeDetails(animeRef.source, animeRef.id);
+    const season = details?.season ?? 1;
+    const absoluteEpisode = (details?.episodeOffset ?? 0) + episode;
+    console.log(`Resolved ${parsedId.baseId} episode ${episode} to S${season}E${episode}, absolute episode ${absoluteEpisode}.`);
+    return { ...parsedId, season, absoluteEpisode };
+}
+
+// Fansub releases are named "[Group] Title - 05 [1080p]" after the romaji or English title and are often not
+// linked to any content in Bitmagnet, so search title variants with the absolute episode number, plus the bare
+// title for batches, and keep what really contains the episode.
+async function searchAnime(parsedId: ParsedId, config: Config): Promise<SearchResult | null> {
+    const { animeRef, season, episode, absoluteEpisode, searchType } = parsedId;
+    const details = animeRef ? await animeApi.getAnimeDetails(animeRef.source, animeRef.id) : null;
+    if (!details) {
+        console.warn(`Could not resolve anime details for ${parsedId.baseId}.`);
+        return null;
+    }
+
+    const titles = [details.title, ...details.alternativeTitles].slice(0, MAX_ANIME_TITLE_VARIANTS);
+    const isEpisode = season !== undefined && episode !== undefined && absoluteEpisode !== undefined;
+    const queries = isEpisode
+        ? [
+            ...titles.map(title => `${title} ${String(absoluteEpisode).padStart(2, '0')}`),
+            ...(season > 1 ? [`${details.title} S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}`] : []),
+            details.title,
+        ]
+        : titles;
+    console.log(`Searching Bitmagnet for anime ${parsedId.baseId} with queries: ${queries.map(q => `"${q}"`).join(', ')}`);
+
+    const candidates = await searchQueries(queries, searchType, config, { includeUnclassified: true });
+    const torrents = isEpisode
+        ? candidates.filter(torrent => torrentUtils.containsEpisode(torrent, season, episode, absoluteEpisode))
+        : candidates;
+    console.log(`Found ${torrents.length} anime streams for ${parsedId.baseId} out of ${candidates.length} candidates.`);
+
+    return torrents.length > 0 ? { torrents, title: details.title } : null;
 }
 
 export async function fetchAndSearchTorrents(
     parsedId: ParsedId,
     config: Config 
 ): Promise<SearchResult | null> {
-    const { imdbId, season, episode, searchType } = parsedId;
-    let searchQuery = imdbId;
+    const { baseId, imdbId, contentRef, animeRef, searchType } = parsedId;
     let title: string | undefined;
+    let alternativeTitles: string[] = [];
     let year: number | undefined;
 
-    if (config.tmdbApiKey) { 
-        const tmdbDetails = await tmdbApi.getTmdbDetails(imdbId, config.tmdbApiKey, searchType);
-        if (tmdbDetails) {
-            title = tmdbDetails.title;
-            year = tmdbDetails.year;
-            const baseQuery = `${title}${year ? ` ${year}` : ''}`;
-            if (searchType === 'series' && season !== undefined && episode !== undefined) {
-                const seasonPad = String(season).padStart(2, '0');
-                const episodePad = String(episode).padStart(2, '0');
-                searchQuery = `${baseQuery} S${seasonPad}E${episodePad}`;
-                console.log(`Using specific series episode for search: "${searchQuery}"`);
-            } else {
-                searchQuery = baseQuery;
-                console.log(`Using TMDB title/year for search: "${searchQuery}"`);
-            }
+    if (animeRef) {
+        return searchAnime(parsedId, config);
+    }
+
+    // Content-first: Bitmagnet indexes the IMDB id of linked content, so search for it and keep only
+    // torrents whose Content carries that id. This needs no TMDB key and avoids remakes and sequels.
+    if (imdbId && config.bitmagnetSearchMode !== 'TextOnly') {
+        const linkedResults = await searchEpisodeAndPacks([imdbId], parsedId, config, torrent => torrent.content?.imdbId === imdbId);
+        if (linkedResults.length > 0) {
+            console.log(`Found ${linkedResults.length} torrents linked to content ${imdbId}.`);
+            return { torrents: linkedResults, title: linkedResults[0].content?.title };
+        }
+        console.log(`No torrents linked to content ${imdbId}, falling back to text search.`);
+    }
+
+    if (contentRef) {
+        const contentDetails = await bitmagnetFunctions.getContentDetails(contentRef.source, contentRef.id, searchType, config);
+        if (!contentDetails) {
+            console.warn(`Could not find Bitmagnet content for ${baseId}.`);
+            return null;
+        }
+        title = contentDetails.title;
+        alternativeTitles = contentDetails.originalTitle ? [contentDetails.originalTitle] : [];
+        year = contentDetails.releaseYear ?? undefined;
+    } else if (imdbId) { 
+        const details = await metadataApi.resolveDetails(imdbId, searchType, config);
+        if (details) {
+            title = details.title;
+            alternativeTitles = [details.originalTitle ?? '', ...(details.alternativeTitles ?? [])];
+            year = details.year;
         } else {
-            console.warn(`Could not fetch TMDB details for ${imdbId}, falling back to searching by ID.`);
+            console.warn(`No metadata provider had details for ${imdbId}, falling back to searching by ID.`);
         }
-    } else {
-        console.warn("TMDB_API_KEY not set, falling back to searching by ID.");
     }
 
-    console.log(`Searching Bitmagnet for ${searchType} with query: "${searchQuery}"`);
+    // The title, then original and translated titles: releases are often named in the original language.
+    const titleVariants = title
+        ? [...new Map([title, ...alternativeTitles].filter(Boolean).map(t => [t.toLowerCase(), t])).values()].slice(0, MAX_TITLE_VARIANTS)
+        : [];
+    const baseQueries = titleVariants.map(variant => `${variant}${year ? ` ${year}` : ''}`);
+    if (title) {
+        console.log(`Using title/year variants for search: ${baseQueries.map(q => `"${q}"`).join(', ')}`);
+    }
+
+    // Bitmagnet-only ids are resolved by title, so keep only torrents Bitmagnet linked to that exact content.
+    const matchesContent = (torrent: TorrentInfo): boolean =>
+        !contentRef || (torrent.content?.source === contentRef.source && torrent.content?.id === contentRef.id);
 
-    let searchResults = await bitmagnetFunctions.bitmagnetSearch(searchQuery, searchType, config);
-    console.log(`Found ${searchResults.length} potential streams from Bitmagnet for query: "${searchQuery}"`);
+    // Without a title the bare id is not useful as season/episode/pack query text, so only search it once.
+    let searchResults = title
+        ? await searchEpisodeAndPacks(baseQueries, parsedId, config, matchesContent)
+        : (await bitmagnetFunctions.bitmagnetSearch(baseId, searchType, config)).filter(matchesContent);
 
-    if (searchResults.length === 0 && searchType === 'series' && season !== undefined && title) {
-        const seasonPad = String(season).padStart(2, '0');
-        const seasonQuery = `${title}${year ? ` ${year}` : ''} S${seasonPad}`;
-        console.log(`Specific episode query yielded no results. Falling back to season search: "${seasonQuery}"`);
-        searchResults = await bitmagnetFunctions.bitmagnetSearch(seasonQuery, searchType, config);
-        console.log(`Found ${searchResults.length} potential streams from Bitmagnet for season query: "${seasonQuery}"`);
+    // Text search also returns sequels, spin-offs and remakes; content-linked results need no such check.
+    if (title && !contentRef) {
+        searchResults = titleMatcher.filterTorrents(searchResults, { titles: [title, ...alternativeTitles], year }, config);
     }
 
     if (!searchResults || searchResults.length === 0) {
-        console.log(`No streams found for ${searchType} ${imdbId} after fallback.`);
+        console.log(`No streams found for ${searchType} ${baseId} after fallback.`);
         return null;
     }
 
     return { torrents: searchResults, title };
 }
 
-async function processPremiumizeCandidate(
-    config: Config,
+// Streams sending an uncached torrent to the debrid provider point at this route.
+export const TRANSFER_PATH_PREFIX = '/transfer/';
+
+// Relative URL of the playback (or transfer) route, which talks to the debrid provider only when the stream is played.
+// The stream handler prefixes it with the addon origin and config token, so cached streams carry neither.
+function buildDebridPath(route: 'play' | 'transfer', infoHash: string, fileIdx: number | undefined, parsedId: ParsedId): string {
+    const params = new URLSearchParams();
+    if (parsedId.searchType === 'series') {
+        if (parsedId.season !== undefined) params.set('season', String(parsedId.season));
+        if (parsedId.episode !== undefined) params.set('episode', String(parsedId.episode));
+        if (parsedId.absoluteEpisode !== undefined) params.set('absoluteEpisode', String(parsedId.absoluteEpisode));
+    }
+    const query = params.toString();
+    // -1 leaves the file choice to the provider.
+    return `/${route}/${infoHash}/${fileIdx ?? -1}${query ? `?${query}` : ''}`;
+}
+
+function createDebridStream(
+    provider: DebridProvider,
     torrent: TorrentInfo,
-    cacheStatus: PremiumizeCacheStatus,
-    parsedId: ParsedId,
-    tmdbTitle?: string
-): Promise<Stream | null> {
+    availability: DebridAvailability,
+    parsedId: ParsedId
+): Stream | null {
     const infoHash = torrentUtils.parseMagnetUri(torrent.magnetUrl)?.infoHash; 
-    if (!infoHash || !torrent.magnetUrl) {
-         console.warn(`[Premiumize] Skipping candidate due to missing infoHash or magnetUrl: ${torrent.title}`);
+    if (!infoHash) {
+         console.warn(`[${provider.label}] Skipping candidate due to missing infoHash: ${torrent.title}`);
          return null;
     }
 
-    let localSearchQuery: string | undefined = tmdbTitle || torrent.title;
-    if (parsedId.searchType === 'series' && parsedId.season !== undefined && parsedId.episode !== undefined) {
-        const seasonPad = String(parsedId.season).padStart(2, '0');
-        const episodePad = String(parsedId.episode).padStart(2, '0');
-        localSearchQuery = `${localSearchQuery} S${seasonPad}E${episodePad}`;
-    }
-
-    const directLink = await premiumizeApi.getPremiumizeDirectDownloadLink(config.premiumizeApiKey!, torrent.magnetUrl, localSearchQuery);
-
-    if (directLink) {
-        const details = [
-            `💾 ${torrentUtils.formatBytes(torrent.size || 0)}`, `⚡ Premiumize`, `📺 ${torrent.resolution || 'N/A'}`,
-            torrent.videoCodec ? `🎬 ${torrent.videoCodec}` : null, torrent.videoSource ? `💿 ${torrent.videoSource}` : null,
-            torrent.languages.length > 0 ? `🗣️ ${torrent.languages.join(', ')}` : null,
-        ].filter(Boolean).join(' | ');
-        const streamTitle = `${cacheStatus.filename}\n${details}`;
-
-        const stream: Stream = {
-            name: `[PM] FW Bitmagnet`, title: streamTitle, url: directLink,
-            behaviorHints: { bingeGroup: `premiumize-${infoHash}` }
-        };
-        console.log(`[Premiumize] Using direct download link for ${infoHash}`);
-        return stream;
-    } else {
-        console.warn(`[Premiumize] Item ${infoHash} was cached, but failed to get direct download link. Adding to fallback.`);
-        return null;
-    }
+    const fileIndex = torrentUtils.findBestFileIndex(torrent.files, parsedId.season, parsedId.episode, parsedId.absoluteEpisode);
+    const details = [
+        `💾 ${torrentUtils.formatBytes(torrent.size || 0)}`, `⚡ ${provider.label}`, `📺 ${torrent.resolution || 'N/A'}`,
+        torrent.videoCodec ? `🎬 ${torrent.videoCodec}` : null, torrent.videoSource ? `💿 ${torrent.videoSource}` : null,
+        torrent.languages.length > 0 ? `🗣️ ${torrent.languages.join(', ')}` : null,
+    ].filter(Boolean).join(' | ');
+    const streamTitle = `${availability.filename}\n${details}`;
+
+    return {
+        name: provider.streamName, title: streamTitle, url: buildDebridPath('play', infoHash, fileIndex, parsedId),
+        behaviorHints: { bingeGroup: `${provider.id}-${infoHash}` }
+    };
 }
 
 export async function createStreamsFromTorrents(
     searchResults: TorrentInfo[],
     parsedId: ParsedId,
-    tmdbTitle: string | undefined,
     config: Config 
 ): Promise<Stream[]> {
-    const { season, episode } = parsedId;
-    const premiumizeApiKey = config.premiumizeApiKey;
+    const { season, episode, absoluteEpisode } = parsedId;
+    const debridProvider = getDebridProvider(config);
     const additionalTrackers = await trackerSource.getTrackers(); 
 
-    let premiumizeResultsMap: Record<string, PremiumizeCacheStatus> = {};
-    if (premiumizeApiKey) {
+    // Bitmagnet's classified episodes catch torrents for the wrong episode before findBestFileIndex
+    // would fall back to their largest file.
+    if (season !== undefined && episode !== undefined) {
+        const episodeResults = searchResults.filter(torrent =>
+            torrentUtils.episodesInclude(torrent.episodes, season, episode) !== false ||
+            (absoluteEpisode !== undefined && torrentUtils.episodesInclude(torrent.episodes, 1, absoluteEpisode) !== false));
+        if (episodeResults.length < searchResults.length) {
+            console.log(`Dropped ${searchResults.length - episodeResults.length} torrents not containing S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}.`);
+        }
+        searchResults = episodeResults;
+    }
+
+    let availabilityMap: Record<string, DebridAvailability> = {};
+    if (debridProvider) {
         const infoHashesToCheck = searchResults
             .map(torrent => torrentUtils.parseMagnetUri(torrent.magnetUrl)?.infoHash)
             .filter((hash): hash is string => !!hash);
         if (infoHashesToCheck.length > 0) {
-            premiumizeResultsMap = await premiumizeApi.checkPremiumizeCacheBulk(premiumizeApiKey, infoHashesToCheck);
+            availabilityMap = await debridProvider.checkAvailability(infoHashesToCheck);
         }
     }
 
-    const premiumizeCandidates: { torrent: TorrentInfo; cacheStatus: PremiumizeCacheStatus }[] = [];
+    const debridCandidates: { torrent: TorrentInfo; availability: DebridAvailability }[] = [];
     const fallbackTorrents: TorrentInfo[] = []; 
 
     for (const torrent of searchResults) {
         const infoHash = torrentUtils.parseMagnetUri(torrent.magnetUrl)?.infoHash;
 
-        if (!premiumizeApiKey || !infoHash) {
+        if (!debridProvider || !infoHash) {
             fallbackTorrents.push(torrent);
             continue;
         }
 
-        const cacheStatus = premiumizeResultsMap[infoHash];
-        if (cacheStatus?.isCached && cacheStatus.filename) {
-            premiumizeCandidates.push({ torrent, cacheStatus });
+        const availability = availabilityMap[infoHash];
+        if (availability?.isCached && availability.filename) {
+            debridCandidates.push({ torrent, availability });
         } else {
             fallbackTorrents.push(torrent);
         }
     }
 
-    const premiumizeStreamPromises = premiumizeCandidates.map(async ({ torrent, cacheStatus }) => {
-        const stream = await processPremiumizeCandidate(config, torrent, cacheStatus, parsedId, tmdbTitle);
-        if (!stream) {
-            fallbackTorrents.push(torrent);
-        }
-        return stream;
-    });
-
-    const premiumizeStreams = (await Promise.all(premiumizeStreamPromises))
-                                .filter((s: Stream | null): s is Stream => s !== null); 
+    const debridStreams = debridCandidates.map(({ torrent, availability }): RankedStream | null => {
+        const stream = createDebridStream(debridProvider!, torrent, availability, parsedId);
+        return stream ? { stream, torrent, cached: true } : null;
+    }).filter((s): s is RankedStream => s !== null); 
 
-    const fallbackStreams = fallbackTorrents.map((torrent): Stream | null => {
+    const fallbackStreams = fallbackTorrents.map((torrent): RankedStream | null => {
         let parsedMagnet: ParsedMagnetUri | null = null;
         let infoHash: string | undefined = undefined; 
 
@@ -217,7 +481,7 @@ export async function createStreamsFromTorrents(
              return null;
         }
 
-        const fileIndex = torrentUtils.findBestFileIndex(torrent.files, season, episode); // Call via object
+        const fileIndex = torrentUtils.findBestFileIndex(torrent.files, season, episode, absoluteEpisode); // Call via object
         const details = [
             `💾 ${torrentUtils.formatBytes(torrent.size || 0)}`, `👤 ${torrent.seeders}`, `📺 ${torrent.resolution || 'N/A'}`, // Call via object
             torrent.videoCodec ? `🎬 ${torrent.videoCodec}` : null, torrent.videoSource ? `💿 ${torrent.videoSource}` : null,
@@ -246,17 +510,57 @@ export async function createStreamsFromTorrents(
         if (allTrackers.length > 0) {
             stream.sources = allTrackers;
         }
-        return stream;
-    }).filter((s): s is Stream => s !== null); 
-
-    const uniqueFallbackStreams = [...new Map(fallbackStreams.map(s => [s.infoHash, s])).values()];
+        return { stream, torrent, cached: false };
+    }).filter((s): s is RankedStream => s !== null); 
 
-    const allStreams = [...premiumizeStreams, ...uniqueFallbackStreams];
+    const uniqueFallbackStreams = [...new Map(fallbackStreams.map(s => [s.stream.infoHash, s])).values()];
 
-    return allStreams.filter((stream): stream is Stream => {
+    const validStreams = [...debridStreams, ...uniqueFallbackStreams].filter(({ stream }) => {
         if (stream.url) return true; 
         if (stream.name === '[TORRENT] FW Bitmagnet' && stream.infoHash && stream.title) return true;
         console.warn(`Filtering out invalid stream: Name=${stream.name}, Title=${stream.title}, URL=${stream.url}, InfoHash=${stream.infoHash}`);
         return false; 
     });
+
+    const rankedStreams = rankStreams(validStreams, config);
+    if (debridProvider?.createTransfer && config.offerDebridTransfers) {
+        return [...rankedStreams, ...createTransferStreams(debridProvider, rankedStreams, parsedId)];
+    }
+    return rankedStreams;
+}
+
+// "Send to <provider>" entries for the uncached torrents that made it through ranking. They go last,
+// so they never push playable streams out of the capped list.
+function createTransferStreams(provider: DebridProvider, rankedStreams: Stream[], parsedId: ParsedId): Stream[] {
+    return rankedStreams
+        .filter(stream => stream.infoHash && !stream.url)
+        .map(stream => ({
+            name: provider.streamName,
+            title: `⬇️ Send to ${provider.label}\n${stream.title}`,
+            url: buildDebridPath('transfer', stream.infoHash!, stream.fileIdx, parsedId),
+        }));
+}
+
+interface RankedStream {
+    stream: Stream;
+    torrent: TorrentInfo;
+    cached: boolean;
+}
+
+// Orders streams by their weighted score, then groups and caps them per resolution.
+// Ties keep the search order, since Array.prototype.sort is stable.
+function rankStreams(rankedStreams: RankedStream[], config: Config): Stream[] {
+    const scores = rankingEngine.scoreCandidates(rankedStreams, config);
+    const scored = rankedStreams.map(({ stream, torrent }, i) => ({ stream, torrent, score: scores[i] }));
+    scored.sort((a, b) => b.score.total - a.score.total);
+
+    const capped = rankingEngine.groupAndCap(scored, ({ torrent }) => torrent.resolution, config);
+    if (capped.length < scored.length) {
+        console.log(`[Ranking] Kept ${capped.length} of ${scored.length} streams after per-resolution and total caps.`);
+    }
+
+    return capped.map(({ stream, score }) => {
+        if (!config.rankingDebug) return stream;
+        return { ...stream, title: `${stream.title}\n🧮 ${rankingEngine.explainScore(score)}` };
+    });
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { releaseNameParser } from './release_name.ts';
+import { type TorrentInfo } from './bitmagnet/functions.ts';
+import { type Config } from '../types.ts';
+
+export type TitleMatchStrictness = Config['titleMatchStrictness'];
+export const TITLE_MATCH_STRICTNESS_LEVELS: readonly TitleMatchStrictness[] = ['Lenient', 'Normal', 'Strict'];
+
+export interface ExpectedTitle {
+    // Canonical title first, then original/alternative titles.
+    titles: string[];
+    year?: number;
+}
+
+interface StrictnessRules {
+    // Share of the score that comes from the year; the rest comes from the title.
+    yearWeight: number;
+    // Strict matching rejects a known, different year and loose title matches outright.
+    rejectYearMismatch: boolean;
+    minTitleSimilarity: number;
+}
+
+const STRICTNESS_RULES: Record<TitleMatchStrictness, StrictnessRules> = {
+    Lenient: { yearWeight: 0.2, rejectYearMismatch: false, minTitleSimilarity: 0 },
+    Normal: { yearWeight: 0.4, rejectYearMismatch: false, minTitleSimilarity: 0 },
+    Strict: { yearWeight: 0.4, rejectYearMismatch: true, minTitleSimilarity: 0.9 },
+};
+
+// Score used for a year neither confirmed nor contradicted by the release name.
+const UNKNOWN_YEAR_SCORE = 0.5;
+
+// Falls back to 'Normal' for missing or unknown values.
+export function parseTitleMatchStrictness(raw: unknown): TitleMatchStrictness {
+    return TITLE_MATCH_STRICTNESS_LEVELS.find(level => level === raw) ?? 'Normal';
+}
+
+function tokenize(title: string): string[] {
+    return title
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/['’]/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+}
+
+// Dice coefficient over title words, so "Alien Romulus" only half-matches "Alien".
+function titleSimilarity(a: string, b: string): number {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+    if (tokensA.join(' ') === tokensB.join(' ')) return 1;
+
+    const remaining = [...tokensB];
+    let shared = 0;
+    for (const token of tokensA) {
+        const index = remaining.indexOf(token);
+        if (index !== -1) {
+            shared++;
+            remaining.splice(index, 1);
+        }
+    }
+    return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Scores how well a release name matches the expected title and year, from 0 to 1.
+ * Names without a parseable title score 0.
+ */
+function _scoreRelease(releaseName: string, expected: ExpectedTitle, strictness: TitleMatchStrictness): number {
+    const rules = STRICTNESS_RULES[strictness];
+    const parsed = releaseNameParser.parse(releaseName);
+    if (!parsed.title) return 0;
+
+    const similarity = Math.max(0, ...expected.titles.filter(Boolean).map(title => titleSimilarity(parsed.title!, title)));
+    if (similarity < rules.minTitleSimilarity) return 0;
+
+    let yearScore = UNKNOWN_YEAR_SCORE;
+    if (expected.year !== undefined && parsed.year !== undefined) {
+        // Off by one is common around release dates (festival premiere vs. theatrical release).
+        const difference = Math.abs(expected.year - parsed.year);
+        yearScore = difference === 0 ? 1 : difference === 1 ? 0.8 : 0;
+        if (yearScore === 0 && rules.rejectYearMismatch) return 0;
+    }
+
+    return similarity * (1 - rules.yearWeight) + yearScore * rules.yearWeight;
+}
+
+/**
+ * Drops torrents whose names score below the user's threshold (`titleMatchThreshold`, in percent; 0 disables).
+ */
+function _filterTorrents(torrents: TorrentInfo[], expected: ExpectedTitle, config: Config): TorrentInfo[] {
+    if (config.titleMatchThreshold <= 0) return torrents;
+    const threshold = config.titleMatchThreshold / 100;
+
+    const kept = torrents.filter(torrent => _scoreRelease(torrent.title, expected, config.titleMatchStrictness) >= threshold);
+    if (kept.length < torrents.length) {
+        console.log(`[TitleMatch] Dropped ${torrents.length - kept.length} of ${torrents.length} torrents not matching "${expected.titles[0]}"${expected.year ? ` (${expected.year})` : ''}.`);
+    }
+    return kept;
+}
+
+// Export functions within an object
+export const titleMatcher = {
+    scoreRelease: _scoreRelease,
+    filterTorrents: _filterTorrents,
+};
@@ -1,19 +1,79 @@
+import { metrics } from '../metrics.ts';
+
 export interface TmdbDetails {
     title: string;
+    originalTitle?: string;
+    // Translated titles in the requested languages first, then other alternative titles.
+    alternativeTitles: string[];
     year?: number;
 }
 
+interface TmdbTitleSources {
+    alternative_titles?: { titles?: { title: string }[]; results?: { title: string }[] };
+    translations?: { translations?: { iso_639_1: string; data?: { title?: string; name?: string } }[] };
+}
+
+const TMDB_API_URL = 'https://api.themoviedb.org/3';
+
+// fetch() that counts calls per endpoint; non-2xx answers and network errors count as failures.
+async function tmdbFetch(url: string, endpoint: 'find' | 'details'): Promise<Response> {
+    try {
+        const response = await fetch(url);
+        metrics.tmdbRequests.inc({ endpoint, result: response.ok ? 'success' : 'failure' });
+        return response;
+    } catch (error) {
+        metrics.tmdbRequests.inc({ endpoint, result: 'failure' });
+        throw error;
+    }
+}
+
+// Fetches alternative titles and translations for a TMDB entry. Failures only cost the extra titles.
+async function fetchAlternativeTitles(
+    tmdbId: number,
+    apiKey: string,
+    type: 'movie' | 'series',
+    languages: string[],
+    knownTitles: string[]
+): Promise<string[]> {
+    const path = type === 'movie' ? 'movie' : 'tv';
+    const url = `${TMDB_API_URL}/${path}/${tmdbId}?api_key=${apiKey}&append_to_response=alternative_titles,translations`;
+    try {
+        const response = await tmdbFetch(url, 'details');
+        if (!response.ok) throw new Error(`TMDB API responded with status ${response.status}`);
+        const data: TmdbTitleSources = await response.json();
+
+        const translations = (data.translations?.translations ?? [])
+            .map(t => ({ language: t.iso_639_1, title: t.data?.title || t.data?.name }))
+            .filter((t): t is { language: string; title: string } => !!t.title);
+        const preferred = translations.filter(t => languages.includes(t.language)).map(t => t.title);
+        const alternatives = (data.alternative_titles?.titles ?? data.alternative_titles?.results ?? []).map(t => t.title);
+
+        const seen = new Set(knownTitles.map(t => t.toLowerCase()));
+        const titles: string[] = [];
+        for (const title of [...preferred, ...alternatives, ...translations.map(t => t.title)]) {
+            const key = title.trim().toLowerCase();
+            if (!key || seen.has(key)) continue;
+            seen.add(key);
+            titles.push(title.trim());
+        }
+        return titles;
+    } catch (error) {
+        console.warn(`Could not fetch TMDB alternative titles for ${path}/${tmdbId}:`, error instanceof Error ? error.message : error);
+        return [];
+    }
+}
+
 // Keep original function name internal
-async function _getTmdbDetails(imdbId: string, apiKey: string, type: 'movie' | 'series'): Promise<TmdbDetails | null> {
+async function _getTmdbDetails(imdbId: string, apiKey: string, type: 'movie' | 'series', languages: string[] = []): Promise<TmdbDetails | null> {
     if (!apiKey) {
         console.warn("TMDB_API_KEY is not provided. Skipping TMDB lookup.");
         return null;
     }
 
-    const url = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
+    const url = `${TMDB_API_URL}/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
     console.log(`Fetching TMDB details from: ${url}`);
     try {
-        const response = await fetch(url);
+        const response = await tmdbFetch(url, 'find');
         if (!response.ok) {
             let errorBody = '';
             try {
@@ -28,12 +88,16 @@ async function _getTmdbDetails(imdbId: string, apiKey: string, type: 'movie' | '
         if (results && results.length > 0) {
             const firstResult = results[0];
             const title = firstResult.title || firstResult.name;
+            const originalTitle = firstResult.original_title || firstResult.original_name || undefined;
             const releaseDate = firstResult.release_date || firstResult.first_air_date;
             const year = releaseDate ? new Date(releaseDate).getFullYear() : undefined;
 
             if (title) {
-                console.log(`Found TMDB details: Title=${title}, Year=${year}`);
-                return { title, year };
+                const alternativeTitles = typeof firstResult.id === 'number'
+                    ? await fetchAlternativeTitles(firstResult.id, apiKey, type, languages, [title, originalTitle ?? ''])
+                    : [];
+                console.log(`Found TMDB details: Title=${title}, Year=${year}, Alternative titles=${alternativeTitles.length}`);
+                return { title, originalTitle, alternativeTitles, year };
             }
         }
         console.warn(`No TMDB ${type} results found for ${imdbId}`);
@@ -1,3 +1,6 @@
+import { releaseNameParser } from './release_name.ts';
+import type { TorrentInfo, TorrentEpisodes } from './bitmagnet/functions.ts';
+
 export interface ParsedMagnetUri {
     infoHash?: string;
     sources: string[];
@@ -33,40 +36,21 @@ function _parseMagnetUri(magnetUri?: string): ParsedMagnetUri | null {
 function _findBestFileIndex(
     files?: { path: string; size: number; index: number }[],
     season?: number,
-    episode?: number
+    episode?: number,
+    absoluteEpisode?: number
 ): number | undefined {
     if (!files || files.length === 0) {
         return undefined;
     }
 
-    const videoExtensions = ['.mkv', '.mp4', '.avi', '.mov', '.wmv', '.flv'];
     let largestVideoFile: { index: number; size: number; path: string } | null = null;
     let specificEpisodeFile: { index: number; size: number; path: string } | null = null;
-    let regexPatterns: RegExp[] | null = null;
-
-    // Prepare regex patterns only if it's a series episode search
-    if (season !== undefined && episode !== undefined) {
-        const seasonPad = String(season).padStart(2, '0');
-        const episodePad = String(episode).padStart(2, '0');
-        const seasonNoPad = String(season);
-        const episodeNoPad = String(episode);
-
-        // Fuck sake. sort this shit based on all the scene. Is there a module that does this shit?
-        regexPatterns = [
-            new RegExp(`(?:[._\\-\\s]|\\b)S${seasonPad}E${episodePad}(?:[._\\-\\s]|\\b)`, 'i'),
-            new RegExp(`(?:[._\\-\\s]|\\b)S${seasonNoPad}E${episodePad}(?:[._\\-\\s]|\\b)`, 'i'),
-            new RegExp(`(?:[._\\-\\s]|\\b)S${seasonPad}E${episodeNoPad}(?:[._\\-\\s]|\\b)`, 'i'),
-            new RegExp(`(?:[._\\-\\s]|\\b)S${seasonNoPad}E${episodeNoPad}(?:[._\\-\\s]|\\b)`, 'i'),
-            new RegExp(`(?:[._\\-\\s]|\\b)${seasonNoPad}x${episodePad}(?:[._\\-\\s]|\\b)`, 'i'),
-            new RegExp(`(?:[._\\-\\s]|\\b)${seasonNoPad}x${episodeNoPad}(?:[._\\-\\s]|\\b)`, 'i'),
-        ];
-    }
+    const isEpisodeSearch = season !== undefined && episode !== undefined;
 
     for (const file of files) {
-        const extension = file.path.substring(file.path.lastIndexOf('.')).toLowerCase();
-        if (videoExtensions.includes(extension)) {
+        if (releaseNameParser.isVideoFile(file.path)) {
 
-            if (regexPatterns && regexPatterns.some(regex => regex.test(file.path))) {
+            if (isEpisodeSearch && releaseNameParser.matchesEpisode(releaseNameParser.parse(file.path), season, episode, absoluteEpisode)) {
 
                 if (!specificEpisodeFile || file.size > specificEpisodeFile.size) {
                     specificEpisodeFile = { index: file.index, size: file.size, path: file.path };
@@ -101,6 +85,40 @@ function _findBestFileIndex(
     return undefined;
 }
 
+/**
+ * Checks Bitmagnet's classified `episodes` of a torrent for an episode. A season without an
+ * episode list is a whole-season pack. Returns undefined when Bitmagnet classified no seasons.
+ */
+function _episodesInclude(episodes: TorrentEpisodes | undefined, season: number, episode: number): boolean | undefined {
+    if (!episodes || episodes.seasons.length === 0) return undefined;
+    const classified = episodes.seasons.find(s => s.season === season);
+    return !!classified && (classified.episodes.length === 0 || classified.episodes.includes(episode));
+}
+
+/**
+ * Whether a torrent really contains the given episode, so season and complete-series packs can be
+ * offered for a single episode. The file list is the strongest evidence, then the seasons/episodes
+ * Bitmagnet classified, then the torrent name itself.
+ */
+function _containsEpisode(torrent: TorrentInfo, season: number, episode: number, absoluteEpisode?: number): boolean {
+    const parsedFiles = (torrent.files ?? [])
+        .filter(file => releaseNameParser.isVideoFile(file.path))
+        .map(file => releaseNameParser.parse(file.path));
+    if (parsedFiles.some(parsed => releaseNameParser.matchesEpisode(parsed, season, episode, absoluteEpisode))) return true;
+    // Files that name their episodes, but not this one, settle it.
+    if (parsedFiles.some(parsed => parsed.episodes.length > 0 || parsed.absoluteEpisodes.length > 0)) return false;
+
+    let classified = _episodesInclude(torrent.episodes, season, episode);
+    // Bitmagnet classifies absolutely numbered anime releases as season 1.
+    if (classified === false && absoluteEpisode !== undefined) classified = _episodesInclude(torrent.episodes, 1, absoluteEpisode);
+    if (classified !== undefined) return classified;
+
+    // A name with a season but no episodes ("Show.S02.1080p") is a whole-season pack.
+    const parsedName = releaseNameParser.parse(torrent.title);
+    if (releaseNameParser.matchesEpisode(parsedName, season, episode, absoluteEpisode)) return true;
+    return parsedName.episodes.length === 0 && parsedName.seasons.includes(season);
+}
+
 // Keep original function name internal
 function _formatBytes(bytes: number, decimals = 2): string {
     if (bytes === 0) return '0 Bytes';
@@ -117,5 +135,7 @@ function _formatBytes(bytes: number, decimals = 2): string {
 export const torrentUtils = {
     parseMagnetUri: _parseMagnetUri,
     findBestFileIndex: _findBestFileIndex,
+    containsEpisode: _containsEpisode,
+    episodesInclude: _episodesInclude,
     formatBytes: _formatBytes,
 };
\ No newline at end of file
@@ -4,9 +4,16 @@
 // If you are keeping tests, make sure they are conditional (e.g., wrapped in if (Deno.test))
 // import { assertEquals, assert, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
 
+import { getKv, registerCacheNamespace } from './kv_store.ts';
+
 const TRACKER_URL = "https://raw.githubusercontent.com/ngosang/trackerslist/refs/heads/master/trackers_best.txt";
 
 let cachedTrackers: string[] | null = null;
+
+// The list is kept in KV too, so restarts don't refetch it and it can be purged from the admin page.
+const CACHE_PREFIX_TRACKERS = registerCacheNamespace("trackers_", "Public tracker list", () => { cachedTrackers = null; });
+const CACHE_KEY_TRACKERS = [CACHE_PREFIX_TRACKERS, "best"];
+const CACHE_TTL_TRACKERS_SECONDS = 24 * 60 * 60;
 let isFetching = false;
 let fetchPromise: Promise<string[] | null> | null = null;
 
@@ -67,6 +74,18 @@ async function fetchAndCacheTrackers(): Promise<string[] | null> {
     
     // Assign the promise of the new fetch immediately
     fetchPromise = (async () => {
+        try {
+            const kv = await getKv();
+            const stored = await kv.get<string[]>(CACHE_KEY_TRACKERS);
+            if (stored.value !== null && stored.value.length > 0) {
+                console.log(`[Trackers] Loaded ${stored.value.length} trackers from KV.`);
+                cachedTrackers = stored.value;
+                return stored.value;
+            }
+        } catch (error) {
+            console.error("[Trackers] Error reading stored tracker list:", error instanceof Error ? error.message : error);
+        }
+
         console.log(`[Trackers] Initiating fetch from ${TRACKER_URL}...`);
         try {
             const response = await withTimeout(
@@ -88,6 +107,12 @@ async function fetchAndCacheTrackers(): Promise<string[] | null> {
                 console.log(`[Trackers] Successfully fetched and cached ${trackers.length} trackers.`);
                 trackers.forEach(tracker => console.log(`  - ${tracker}`)); 
                 cachedTrackers = trackers; // Cache the successful result
+                try {
+                    const kv = await getKv();
+                    await kv.set(CACHE_KEY_TRACKERS, trackers, { expireIn: CACHE_TTL_TRACKERS_SECONDS * 1000 });
+                } catch (error) {
+                    console.error("[Trackers] Error storing tracker list:", error instanceof Error ? error.message : error);
+                }
                 return trackers;
             } else {
                 console.warn("[Trackers] Fetched list, but it contained no valid trackers. Returning null.");
@@ -114,9 +139,15 @@ async function _getTrackers(): Promise<string[]> {
     return trackers || [];
 }
 
+// Number of trackers held in memory; 0 until the first successful load.
+function _loadedCount(): number {
+    return cachedTrackers?.length ?? 0;
+}
+
 // Export function within an object
 export const trackerSource = {
     getTrackers: _getTrackers,
+    loadedCount: _loadedCount,
 };
 
 // Initial fetch attempt (can run in background, but its state management is crucial)
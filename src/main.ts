@@ -5,6 +5,15 @@ import { initializeSecretKey, decryptConfig, isKeyInitialized } from './lib/cryp
 import { serveConfigPage } from './handlers/configure.ts';
 import { handleGenerateTokenRequest } from './handlers/api.ts';
 import { handleStreamRequest } from './handlers/stream.ts';
+import { handlePlayRequest, handleTransferRequest } from './handlers/play.ts';
+import { handleAdminApiRequest, serveAdminPage } from './handlers/admin.ts';
+import { metrics } from './lib/metrics.ts';
+import { handleHealthRequest, handleReadyRequest } from './handlers/health.ts';
+import { trackerSource } from './lib/trackers.ts';
+import { handleCatalogRequest } from './handlers/catalog.ts';
+import { handleMetaRequest } from './handlers/meta.ts';
+import { getManifestCatalogs } from './lib/catalog.ts';
+import { BITMAGNET_ID_PREFIX, ANIME_ID_PREFIXES } from './lib/stremio_helpers.ts';
 import { closeKv } from "./lib/kv_store.ts";
 import type { Config } from './types.ts';
 
@@ -12,16 +21,39 @@ const manifest: Manifest = {
     id: 'org.filmwhisper.bitmagnet',
     version: '1.4.0', 
     name: 'FilmWhisper: Bitmagnet',
-    description: 'Provides movie/series streams from Bitmagnet. Requires configuration.',
-    catalogs: [], resources: ['stream'], types: ['movie', 'series'], idPrefixes: ['tt'],
+    description: 'Provides movie/series streams and catalogs from Bitmagnet. Requires configuration.',
+    catalogs: getManifestCatalogs(), types: ['movie', 'series'], idPrefixes: ['tt', BITMAGNET_ID_PREFIX, ...ANIME_ID_PREFIXES],
+    resources: [
+        'catalog',
+        'stream',
+        // Only Bitmagnet-only content needs our metadata; IMDB ids are left to Cinemeta.
+        { name: 'meta', types: ['movie', 'series'], idPrefixes: [BITMAGNET_ID_PREFIX] },
+    ],
     config: [
         { key: 'bitmagnetUrl', type: 'text', title: 'Bitmagnet URL (e.g., http://192.168.1.10:3333)', required: true },
         { key: 'tmdbApiKey', type: 'password', title: 'TMDB API Key', required: false },
+        { key: 'debridProvider', type: 'select', title: 'Debrid Provider', default: 'Premiumize', options: ['Premiumize', 'RealDebrid'], required: false },
         { key: 'premiumizeApiKey', type: 'password', title: 'Premiumize API Key', required: false },
+        { key: 'realDebridApiKey', type: 'password', title: 'Real-Debrid API Token', required: false },
+        { key: 'offerDebridTransfers', type: 'checkbox', title: 'Debrid: Offer "Send to" streams for uncached torrents (Premiumize only)', required: false },
         { key: 'bitmagnetTimeout', type: 'number', title: 'Advanced: Bitmagnet Timeout (seconds)', default: '30', required: false },
         { key: 'bitmagnetSortField', type: 'select', title: 'Advanced: Bitmagnet Sort Field', default: 'Seeders', options: ['Seeders', 'Leechers', 'Size', 'PublishedAt', 'Relevance', 'Name'], required: false },
         { key: 'bitmagnetSortDescending', type: 'checkbox', title: 'Advanced: Sort Descending', default: 'checked', required: false },
         { key: 'bitmagnetSearchLimit', type: 'number', title: 'Advanced: Bitmagnet Search Limit (1-100)', default: '30', required: false },
+        { key: 'bitmagnetSearchMode', type: 'select', title: 'Advanced: Bitmagnet Search Mode', default: 'ContentFirst', options: ['ContentFirst', 'TextOnly'], required: false },
+        { key: 'bitmagnetMaxPages', type: 'number', title: 'Advanced: Bitmagnet Max Pages per Search (1-10)', default: '3', required: false },
+        { key: 'bitmagnetSearchBudget', type: 'number', title: 'Advanced: Bitmagnet Total Search Time Budget (seconds)', default: '20', required: false },
+        { key: 'allowedResolutions', type: 'text', title: 'Quality: Allowed Resolutions, comma-separated (e.g. 2160p,1080p,720p; empty = all)', default: '', required: false },
+        { key: 'excludedSources', type: 'text', title: 'Quality: Excluded Sources, comma-separated (e.g. CAM,TELESYNC,TELECINE,WORKPRINT)', default: '', required: false },
+        { key: 'requiredLanguages', type: 'text', title: 'Quality: Languages, comma-separated codes; a release must have one of them (e.g. en,de; empty = any)', default: '', required: false },
+        { key: 'rankingPreset', type: 'select', title: 'Ranking: Preset', default: 'Balanced', options: ['Balanced', 'QualityFirst', 'SmallFiles', 'FastStart'], required: false },
+        { key: 'rankingWeights', type: 'text', title: 'Ranking: Weight overrides (e.g. resolution=4,seeders=2,size=-1; factors: resolution, codec, source, size, seeders, language, cached)', default: '', required: false },
+        { key: 'preferredLanguages', type: 'text', title: 'Ranking: Preferred Languages, comma-separated codes (ranked higher, not required)', default: '', required: false },
+        { key: 'maxStreamsPerResolution', type: 'number', title: 'Ranking: Max Streams per Resolution (0 = unlimited)', default: '5', required: false },
+        { key: 'maxTotalStreams', type: 'number', title: 'Ranking: Max Total Streams (0 = unlimited)', default: '20', required: false },
+        { key: 'titleMatchThreshold', type: 'number', title: 'Matching: Minimum title/year match for text search results, in percent (0 = off)', default: '65', required: false },
+        { key: 'titleMatchStrictness', type: 'select', title: 'Matching: Strictness', default: 'Normal', options: ['Lenient', 'Normal', 'Strict'], required: false },
+        { key: 'rankingDebug', type: 'checkbox', title: 'Ranking: Show score explanation in stream titles', required: false },
     ],
     behaviorHints: { configurable: true }
 };
@@ -64,6 +96,37 @@ const routes: { pattern: URLPattern; method: string; handler: RouteHandler }[] =
         method: 'POST',
         handler: (request) => handleGenerateTokenRequest(request, manifest),
     },
+    {
+        pattern: new URLPattern({ pathname: '/admin' }),
+        method: 'GET',
+        handler: () => serveAdminPage(),
+    },
+    {
+        // Match /admin/api/<action>; the handler checks ADMIN_TOKEN and the method.
+        pattern: new URLPattern({ pathname: '/admin/api/:action' }),
+        method: 'GET',
+        handler: (request, params) => handleAdminApiRequest(request, params?.action ?? ''),
+    },
+    {
+        pattern: new URLPattern({ pathname: '/admin/api/:action' }),
+        method: 'POST',
+        handler: (request, params) => handleAdminApiRequest(request, params?.action ?? ''),
+    },
+    {
+        pattern: new URLPattern({ pathname: '/health' }),
+        method: 'GET',
+        handler: () => handleHealthRequest(),
+    },
+    {
+        pattern: new URLPattern({ pathname: '/ready' }),
+        method: 'GET',
+        handler: () => handleReadyRequest(),
+    },
+    {
+        pattern: new URLPattern({ pathname: '/metrics' }),
+        method: 'GET',
+        handler: () => new Response(metrics.render(), { headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' } }),
+    },
     {
         pattern: new URLPattern({ pathname: '/' }),
         method: 'GET',
@@ -89,21 +152,70 @@ const routes: { pattern: URLPattern; method: string; handler: RouteHandler }[] =
             }
         },
     },
+    {
+        // Match /<jwe>/catalog/<type>/<id>.json OR /<jwe>/catalog/<type>/<id>/<extra>.json
+        pattern: new URLPattern({ pathname: '/:jwe/catalog/:type/:id{/:extra}?.json' }),
+        method: 'GET',
+        handler: (_request, params) => {
+            if (!params?.jwe || !params?.type || !params?.id) {
+                 console.error('Missing parameters in catalog request path');
+                 return new Response('Bad Request: Malformed catalog request path. Expected /<jwe>/catalog/<type>/<id>.json', { status: 400 });
+            }
+            return handleCatalogRequest(params.jwe, params.type, params.id, params.extra);
+        },
+    },
+    {
+        // Match /<jwe>/meta/<type>/<id>.json
+        pattern: new URLPattern({ pathname: '/:jwe/meta/:type/:id.json' }),
+        method: 'GET',
+        handler: (_request, params) => {
+            if (!params?.jwe || !params?.type || !params?.id) {
+                 console.error('Missing parameters in meta request path');
+                 return new Response('Bad Request: Malformed meta request path. Expected /<jwe>/meta/<type>/<id>.json', { status: 400 });
+            }
+            return handleMetaRequest(params.jwe, params.type, params.id);
+        },
+    },
     {
         // Match /<jwe>/stream/<type>/<id>.json
         pattern: new URLPattern({ pathname: '/:jwe/stream/:type/:id.json' }),
         method: 'GET',
-        handler: (_request, params) => {
+        handler: (request, params) => {
             if (!params?.jwe || !params?.type || !params?.id) {
                  console.error('Missing parameters in stream request path');
                  return new Response('Bad Request: Malformed stream request path. Expected /<jwe>/stream/<type>/<id>.json', { status: 400 });
             }
-            return handleStreamRequest(params.jwe, params.type, params.id);
+            return handleStreamRequest(params.jwe, params.type, params.id, new URL(request.url).origin);
+        },
+    },
+    {
+        // Match /<jwe>/play/<infoHash>/<fileIdx>
+        pattern: new URLPattern({ pathname: '/:jwe/play/:infoHash/:fileIdx' }),
+        method: 'GET',
+        handler: (request, params) => {
+            if (!params?.jwe || !params?.infoHash || !params?.fileIdx) {
+                 console.error('Missing parameters in play request path');
+                 return new Response('Bad Request: Malformed play request path. Expected /<jwe>/play/<infoHash>/<fileIdx>', { status: 400 });
+            }
+            return handlePlayRequest(params.jwe, params.infoHash, params.fileIdx, new URL(request.url).searchParams);
+        },
+    },
+    {
+        // Match /<jwe>/transfer/<infoHash>/<fileIdx>
+        pattern: new URLPattern({ pathname: '/:jwe/transfer/:infoHash/:fileIdx' }),
+        method: 'GET',
+        handler: (request, params) => {
+            if (!params?.jwe || !params?.infoHash || !params?.fileIdx) {
+                 console.error('Missing parameters in transfer request path');
+                 return new Response('Bad Request: Malformed transfer request path. Expected /<jwe>/transfer/<infoHash>/<fileIdx>', { status: 400 });
+            }
+            return handleTransferRequest(params.jwe, params.infoHash, params.fileIdx, new URL(request.url).searchParams);
         },
     },
 ];
 
-async function requestHandler(request: Request): Promise<Response> {
+// Returns the response and the matched route pattern, which labels the request metrics (never the token itself).
+async function dispatchRequest(request: Request): Promise<{ route: string; response: Response }> {
     const url = new URL(request.url);
     const method = request.method;
     console.log(`Incoming request: ${method} ${url.pathname}`);
@@ -115,17 +227,26 @@ async function requestHandler(request: Request): Promise<Response> {
                 const params = match.pathname.groups;
                 console.log(`Matched route: ${route.pattern.pathname} with params:`, params);
                 try {
-                    return await route.handler(request, params);
+                    return { route: route.pattern.pathname, response: await route.handler(request, params) };
                 } catch (error) {
                      console.error(`Error in handler for ${method} ${url.pathname}:`, error);
-                     return new Response('Internal Server Error', { status: 500 });
+                     return { route: route.pattern.pathname, response: new Response('Internal Server Error', { status: 500 }) };
                 }
             }
         }
     }
 
     console.log(`Request path "${url.pathname}" with method "${method}" did not match any known patterns.`);
-    return new Response('Not Found', { status: 404 });
+    return { route: 'unmatched', response: new Response('Not Found', { status: 404 }) };
+}
+
+async function requestHandler(request: Request): Promise<Response> {
+    const start = performance.now();
+    const { route, response } = await dispatchRequest(request);
+    const labels = { route, method: request.method };
+    metrics.httpRequestDuration.observe(labels, (performance.now() - start) / 1000);
+    metrics.httpRequests.inc({ ...labels, status: String(response.status) });
+    return response;
 }
 
 const port = parseInt(Deno.env.get('PORT') || '7000', 10);
@@ -137,6 +258,8 @@ initializeSecretKey().then((keyInitialized) => {
     }
     console.log(`Addon server starting. Configure at: http://localhost:${port}/configure`);
     Deno.serve({ handler: requestHandler, port: port });
+    // Load the tracker list up front, so the first stream request doesn't wait for it and /ready can report it.
+    trackerSource.getTrackers();
 }).catch(err => {
     console.error("Failed to initialize server:", err);
     Deno.exit(1);
@@ -2,8 +2,25 @@ export interface Config {
     bitmagnetUrl: string;
     tmdbApiKey?: string;
     premiumizeApiKey?: string;
+    realDebridApiKey?: string;
+    debridProvider: 'Premiumize' | 'RealDebrid';
+    offerDebridTransfers: boolean;
     bitmagnetTimeout: number;
     bitmagnetSortField: string;
     bitmagnetSortDescending: boolean;
     bitmagnetSearchLimit: number;
+    bitmagnetSearchMode: 'ContentFirst' | 'TextOnly';
+    bitmagnetMaxPages: number;
+    bitmagnetSearchBudget: number;
+    allowedResolutions: string[];
+    excludedSources: string[];
+    requiredLanguages: string[];
+    rankingPreset: 'Balanced' | 'QualityFirst' | 'SmallFiles' | 'FastStart';
+    rankingWeights: string;
+    preferredLanguages: string[];
+    rankingDebug: boolean;
+    maxStreamsPerResolution: number;
+    maxTotalStreams: number;
+    titleMatchThreshold: number;
+    titleMatchStrictness: 'Lenient' | 'Normal' | 'Strict';
 }
\ No newline at end of file